@@ -0,0 +1,177 @@
+// Relay server for WebDraw's live collaboration. Clients connect over WebSocket to
+// ws://host:8787/<room> and every message is passed on to the other clients in the same
+// room; the drawing itself is merged by the clients. It keeps nothing but the open
+// connections and has no dependencies, so it is meant for local testing:
+//
+//   node server/relay.mjs [port]        (or: npm run relay)
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_SIZE = 64 * 1024 * 1024;  // bytes; full states with images can be large
+
+// Room name -> connected clients
+const rooms = new Map();
+
+// Encode an unmasked frame (servers never mask)
+function encodeFrame(opcode, payload) {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+// Take the next complete frame off the front of `buffer`, or null if it hasn't all arrived
+function decodeFrame(buffer) {
+    if (buffer.length < 2) return null;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+    if (length > MAX_MESSAGE_SIZE) {
+        throw new Error('Message too large');
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+    }
+    return { fin, opcode, payload, size: offset + length };
+}
+
+function broadcast(room, sender, text) {
+    const frame = encodeFrame(0x1, Buffer.from(text));
+    rooms.get(room)?.forEach(client => {
+        if (client !== sender) {
+            client.socket.write(frame);
+        }
+    });
+}
+
+function handleConnection(socket, room) {
+    const client = { socket, peer: null };
+    let buffer = Buffer.alloc(0);
+    let fragments = [];
+    let closed = false;
+
+    if (!rooms.has(room)) rooms.set(room, new Set());
+    rooms.get(room).add(client);
+    console.log(`+ ${room} (${rooms.get(room).size} connected)`);
+
+    function close() {
+        if (closed) return;
+        closed = true;
+        const clients = rooms.get(room);
+        clients.delete(client);
+        if (clients.size === 0) rooms.delete(room);
+        // Peers that vanish without saying goodbye are announced by the relay
+        if (client.peer) {
+            broadcast(room, client, JSON.stringify({ type: 'leave', peer: client.peer }));
+        }
+        console.log(`- ${room} (${clients.size} connected)`);
+        socket.end();
+    }
+
+    function handleText(text) {
+        // Remember who this is, so the others can be told when the connection drops
+        if (!client.peer) {
+            try {
+                const message = JSON.parse(text);
+                if (typeof message.peer === 'string') client.peer = message.peer;
+            } catch {
+                // Not JSON; pass it on anyway
+            }
+        }
+        broadcast(room, client, text);
+    }
+
+    socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        try {
+            let frame;
+            while (!closed && (frame = decodeFrame(buffer))) {
+                buffer = buffer.subarray(frame.size);
+                if (frame.opcode === 0x8) {
+                    socket.write(encodeFrame(0x8, Buffer.alloc(0)));
+                    close();
+                } else if (frame.opcode === 0x9) {
+                    socket.write(encodeFrame(0xa, frame.payload));
+                } else if (frame.opcode === 0x1 || frame.opcode === 0x0) {
+                    fragments.push(frame.payload);
+                    if (frame.fin) {
+                        handleText(Buffer.concat(fragments).toString('utf8'));
+                        fragments = [];
+                    }
+                }
+            }
+        } catch (err) {
+            console.warn(`! ${room}: ${err.message}`);
+            close();
+        }
+    });
+    socket.on('end', close);
+    socket.on('close', close);
+    socket.on('error', close);
+}
+
+const server = createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebDraw relay: connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    // The room is the path; a malformed escape in it is the client's mistake, not ours
+    let room;
+    try {
+        room = decodeURIComponent(new URL(req.url ?? '/', 'http://relay').pathname.slice(1)) || 'default';
+    } catch {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', ''
+    ].join('\r\n'));
+    handleConnection(socket, room);
+});
+
+server.listen(PORT, () => {
+    console.log(`WebDraw relay listening on ws://localhost:${PORT}/<room>`);
+});
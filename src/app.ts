@@ -1,205 +1,916 @@
+import { createCollabSession, type CollabSession } from './collab';
+import { createCollabPanel } from './collabPanel';
+import { getOpaqueColor } from './color';
 import { createColorPicker } from './colorPicker';
 import { createSizePicker } from './sizePicker';
-
+import { createPressureEstimator, samplePointer, type PointerSample } from './pressure';
+import { createStabilizer, simplifyPoints } from './smoothing';
+import { getSymmetryGuides, getSymmetryMatrices, type Symmetry } from './symmetry';
+import { createSymmetryMenu } from './symmetryMenu';
+import { drawLayer, drawObject, rasterizeInk } from './strokeRenderer';
+import { createRenderCache } from './renderCache';
+import { drawRulers } from './rulers';
+import { createReplayPlayer } from './replayPlayer';
+import { createSpatialIndex, type SpatialIndex } from './spatialIndex';
+import { createToolPicker, type Tool } from './toolPicker';
+import { createDocumentLibrary, type ImportMode } from './documentLibrary';
+import { DocumentFormatError, parseDocument, serializeDocument } from './documentFormat';
+import { eraseStrokeSegments, eraseWholeStrokes } from './eraser';
+import { createExportMenu } from './exportMenu';
+import { createFillObject, findFillOutlines, getFillGrid, pointInFill } from './fill';
+import { drawGrid, getGridSpacing, snapToGrid } from './grid';
+import { createGridMenu } from './gridMenu';
+import { createImageMenu } from './imageMenu';
+import { createId } from './ids';
+import { createImageObject, isBackgroundImage, readImageFile, setImageLoadListener } from './images';
+import {
+    applyMatrix,
+    distanceToSegment,
+    getAngle,
+    getDistance,
+    getPointsBounds,
+    getSimilarityMatrix,
+    measurePinch,
+    pointInPolygon,
+    type Matrix,
+    type Pinch
+} from './geometry';
+import { createCompoundCommand, createEditCommand, createHistory } from './history';
+import { BACKGROUND_LAYER, createLayer, getNextLayerName, getVisibleLayerContents, type LayerContent } from './layers';
+import { createLayersPanel } from './layersPanel';
+import { createMinimap } from './minimap';
+import { getOffsetVector, loadSettings, saveSettings, type Settings } from './settings';
+import { createSettingsPanel } from './settingsPanel';
+import {
+    getFrameCenter,
+    getFrameFromBounds,
+    getSelectionPolygon,
+    selectObjects,
+    transformObject
+} from './selection';
+import { getObjectPaths, getObjectsBounds, getShapePoints, isShapeKind } from './shapes';
+import { createTextObject, getTextBox, getTextRotation } from './text';
+import { createTextEditor } from './textEditor';
+import {
+    deleteDocument,
+    getCurrentDocumentId,
+    listDocuments,
+    loadDocument,
+    renameDocument,
+    saveDocument,
+    setCurrentDocumentId,
+    type StoredDocument
+} from './storage';
+import {
+    clampScale,
+    getFitView,
+    getViewAt,
+    interpolateView,
+    normalizeRotation,
+    toCanvasPoint,
+    toScreenPoint
+} from './view';
+import type { Bounds, DrawingObject, ImageObject, Layer, Point, Shape, Stroke, TextObject, ViewTransform } from './types';
+
+const toolbarEl = document.querySelector('.toolbar') as HTMLElement;
 const canvas = document.getElementById('drawingCanvas') as HTMLCanvasElement;
 const ctx = canvas.getContext('2d')!;
 const colorPickerEl = document.getElementById('colorPicker') as HTMLElement;
 const sizePickerEl = document.getElementById('sizePicker') as HTMLElement;
+const toolPickerEl = document.getElementById('toolPicker') as HTMLElement;
 const undoBtn = document.getElementById('undoBtn') as HTMLButtonElement;
+const redoBtn = document.getElementById('redoBtn') as HTMLButtonElement;
 const clearBtn = document.getElementById('clearBtn') as HTMLButtonElement;
 const liftModeCheckbox = document.getElementById('liftMode') as HTMLInputElement;
+const pressureModeCheckbox = document.getElementById('pressureMode') as HTMLInputElement;
+const snapShapesCheckbox = document.getElementById('snapShapes') as HTMLInputElement;
+const stabilizerSelect = document.getElementById('stabilizer') as HTMLSelectElement;
+const libraryBtn = document.getElementById('libraryBtn') as HTMLButtonElement;
+const exportBtn = document.getElementById('exportBtn') as HTMLButtonElement;
+const settingsBtn = document.getElementById('settingsBtn') as HTMLButtonElement;
+const collabBtn = document.getElementById('collabBtn') as HTMLButtonElement;
+const replayBtn = document.getElementById('replayBtn') as HTMLButtonElement;
+const gridBtn = document.getElementById('gridBtn') as HTMLButtonElement;
+const symmetryBtn = document.getElementById('symmetryBtn') as HTMLButtonElement;
+const layersBtn = document.getElementById('layersBtn') as HTMLButtonElement;
+const imageBtn = document.getElementById('imageBtn') as HTMLButtonElement;
+const selectionBar = document.getElementById('selectionBar') as HTMLElement;
+const deleteSelectionBtn = document.getElementById('deleteSelectionBtn') as HTMLButtonElement;
+const duplicateSelectionBtn = document.getElementById('duplicateSelectionBtn') as HTMLButtonElement;
+const backgroundSelectionBtn = document.getElementById('backgroundSelectionBtn') as HTMLButtonElement;
+const deselectBtn = document.getElementById('deselectBtn') as HTMLButtonElement;
+const minimapCanvas = document.getElementById('minimap') as HTMLCanvasElement;
+const zoomLevelEl = document.getElementById('zoomLevel') as HTMLElement;
+const resetRotationBtn = document.getElementById('resetRotationBtn') as HTMLButtonElement;
+const fitContentBtn = document.getElementById('fitContentBtn') as HTMLButtonElement;
+const resetViewBtn = document.getElementById('resetViewBtn') as HTMLButtonElement;
+
+// Strokes and shapes of the open drawing, in drawing order (each layer draws its own in this order)
+let strokeHistory: DrawingObject[] = [];
+
+// Layers of the open drawing, bottom to top; new strokes go to the active layer
+let layers: Layer[] = [];
+let activeLayerId = '';
+let opacityEditStart: Layer[] | null = null;  // layers before a live opacity change
+let backgroundEditStart: DrawingObject[] | null = null;  // strokes before a live background opacity change
+const layerCanvas = document.createElement('canvas');  // scratch surface for translucent layers
+
+// Rendering: committed layers are cached as bitmaps below and above the layer being drawn on,
+// and only objects whose bounds reach into the view are drawn
+const belowCache = createRenderCache();
+const aboveCache = createRenderCache();
+const objectBounds = new WeakMap<DrawingObject, Bounds | null>();  // objects are replaced, not mutated, once committed
+let strokeIndex: SpatialIndex<DrawingObject> = createSpatialIndex([], getObjectBounds);
+let indexedStrokes: DrawingObject[] = [];
+let loadedImageCount = 0;   // bumped when an image finishes loading, so cached bitmaps pick it up
+let frameRequested = false;
+
+// Canvas size in CSS pixels (the unit of all screen coordinates) and device pixels per CSS pixel
+let viewWidth = 0;
+let viewHeight = 0;
+let pixelRatio = 1;
+let pixelRatioQuery: MediaQueryList | null = null;
+
+// Animated view change (reset, fit, minimap taps); any gesture on the canvas stops it
+let viewAnimation: number | null = null;
+const VIEW_ANIMATION_DURATION = 300;  // ms
+const FIT_MARGIN = 40;                // CSS px kept free around the drawing when fitting
+
+// Undo/redo stack of edits to strokeHistory and layers
+const MAX_HISTORY = 100;
+const editHistory = createHistory(MAX_HISTORY, () => {
+    shareLocalChanges();
+    syncActiveLayer();
+    syncSelection();
+    layersPanel.refresh();
+    imageMenu.refresh();
+    updateHistoryButtons();
+    redraw();
+    scheduleAutosave();
+});
 
-interface Point {
-    x: number;
-    y: number;
-}
+// Live collaboration session, if one was joined. Peers' edits merge into strokeHistory and
+// layers between gestures; undo only reverts this user's own edits.
+let collab: CollabSession | null = null;
+let remoteMergePending = false;
+
+// Currently open document (autosaved to IndexedDB)
+let currentDocument: { id: string; name: string; createdAt: number } | null = null;
+let documentRestored = false;  // the canvas takes no input until the last drawing is back
+let autosaveTimer: number | null = null;
+const AUTOSAVE_DELAY = 500; // ms of inactivity before saving
+
+// Gesture mode. Touch uses the offset cursor ('waiting'/'drawing'); a mouse or pen acts
+// right under the pointer ('direct'); 'pan' drags the view (middle button or Space);
+// 'size' changes the brush size with the second finger
+type GestureMode = 'none' | 'waiting' | 'drawing' | 'transform' | 'selection' | 'direct' | 'pan' | 'size';
+let gestureMode: GestureMode = 'none';
+let gestureTimer: number | null = null;
 
-interface Stroke {
-    color: string;
-    size: number;
-    points: Point[];
-}
+// Gesture preferences (cursor offset, hold delay, pinch rotation, tap shortcuts), kept across visits
+let settings: Settings = loadSettings();
+liftModeCheckbox.checked = settings.liftModeDefault;
 
-// History for undo functionality
-let strokeHistory: Stroke[] = [];
+// Touch taps: fingers that all land and lift quickly without moving
+let tap: { start: number; fingers: number; startPositions: Map<number, Point>; view: ViewTransform; cancelled: boolean } | null = null;
+const activeTouches = new Set<number>();
+const TAP_MAX_DURATION = 300;  // ms from the first finger down to the last finger up
+const TAP_SLOP = 10;           // CSS px a finger may move during a tap
 
-// Gesture mode
-type GestureMode = 'none' | 'waiting' | 'drawing' | 'transform';
-let gestureMode: GestureMode = 'none';
-let gestureTimer: number | null = null;
-const GESTURE_DELAY = 250; // ms to wait before entering drawing mode
+// Eyedropper: the next touch or click picks a color instead of drawing
+let eyedropperActive = false;
+const EYEDROPPER_TOLERANCE = 8;  // CSS px around strokes that still counts as a hit
+
+// Palm rejection: touches that are ignored until they lift
+const rejectedTouches = new Set<number>();
+let lastPenTime = -Infinity;     // last pen contact or hover
+const PALM_CONTACT_SIZE = 50;    // CSS px; fingertips report far smaller contacts
+const PEN_TOUCH_GRACE = 500;     // ms after the pen was last seen that stylus mode ignores touches
 
 // Pointer tracking
 let primaryPointerId: number | null = null;
 let secondaryPointerId: number | null = null;
 let primaryPos: Point | null = null;
 let secondaryPos: Point | null = null;
+let directInput = false;           // the primary pointer is a mouse or pen, so there is no offset
+let hoverPos: Point | null = null; // mouse or pen hovering over the canvas
+
+// Desktop navigation
+let spaceHeld = false;             // Space + drag pans
+let panStart: { pointerId: number; pos: Point; panX: number; panY: number } | null = null;
+let trackpadGesture: { scale: number; rotation: number } | null = null;  // view when a Safari gesture began
+const WHEEL_ZOOM_SPEED = 0.0015;   // per pixel of mouse wheel travel
+const PINCH_ZOOM_SPEED = 0.01;     // per pixel of ctrl+wheel (trackpad pinch) travel
+const KEY_ZOOM_STEP = 1.25;
+const KEY_ROTATION_STEP = Math.PI / 12;
 
 // Drawing state
 let currentStroke: Stroke | null = null;
 let isDrawing = false;
+let strokeStartTime = 0;
+let primarySample: PointerSample | null = null;  // latest pressure/tilt/time of the primary pointer
+const pressureEstimator = createPressureEstimator();
+const stabilizer = createStabilizer();
+const SIMPLIFY_TOLERANCE = 0.35; // screen px a committed stroke may deviate after simplification
+
+// Shape state (shape tools): dragged from shapeStart to the cursor
+let currentShape: Shape | null = null;
+let shapeStart: Point | null = null;  // canvas coordinates
+let shiftHeld = false;                // Shift constrains shapes like the Snap checkbox
+
+// Symmetry: strokes and shapes are repeated by these transforms as they are drawn,
+// and committed together with their copies
+let symmetry: Symmetry = { mode: 'off', center: { x: 0, y: 0 }, folds: 6 };
+let placingSymmetryCenter = false;   // the next tap or click moves the center
+let symmetryMatrices: Matrix[] = [];  // fixed when a stroke or shape starts
+let symmetryCopies: DrawingObject[] = [];
+
+// Text being typed (text tool); an edited object is hidden from the canvas meanwhile
+let editingText: {
+    original: TextObject | null;
+    origin: Point;      // canvas coordinates
+    rotation: number;   // baseline angle in canvas space
+} | null = null;
+
+// Erase state (strokes are edited live; the gesture is recorded as one command)
+let eraseStart: DrawingObject[] | null = null;
+let lastErasePos: Point | null = null;
 
 // Transform state
-let viewTransform = {
+let viewTransform: ViewTransform = {
     scale: 1,
-    rotation: 0,  // in radians
+    rotation: 0,
     panX: 0,
     panY: 0
 };
 let transformStart: {
-    primaryPos: Point;
-    secondaryPos: Point;
-    distance: number;
-    angle: number;
-    midpoint: Point;
-    initialTransform: typeof viewTransform;
+    pinch: Pinch;
+    initialTransform: ViewTransform;
 } | null = null;
 
-// Initialize custom color picker
-const colorPicker = createColorPicker(colorPickerEl, () => {});
+// Two fingers from 'waiting' may be a pinch or, if the first stays put while the second
+// drags up or down, a brush size change; nothing happens until one of them moves
+let sizeGestureCandidate: { primary: Point; secondary: Point } | null = null;
+let sizeGestureStart: { y: number; size: number } | null = null;
+const SIZE_GESTURE_SLOP = 12;     // CSS px a finger moves before the gesture is decided
+const SIZE_GESTURE_RANGE = 150;   // CSS px of drag that doubles or halves the size
+
+// Selection state (select tools)
+let selection: DrawingObject[] = [];
+let selectionFrame: Point[] | null = null;  // corners in canvas coordinates; follows moves/rotations
+let selectionPath: Point[] | null = null;   // lasso or rectangle being drawn, in canvas coordinates
+type SelectionDragKind = 'move' | 'scale' | 'rotate' | 'pinch';
+let selectionDrag: {
+    kind: SelectionDragKind;
+    startPos: Point;          // canvas position where the drag started
+    anchor: Point;            // fixed point while scaling/rotating
+    pinch: Pinch | null;      // screen-space pinch at start (two-finger transform)
+    originalStrokes: DrawingObject[];
+    originalFrame: Point[];
+    before: DrawingObject[];  // strokeHistory when the drag started
+} | null = null;
+const HANDLE_SIZE = 12;            // screen px
+const ROTATE_HANDLE_DISTANCE = 28; // screen px above the frame
+
+// Initialize tool picker
+const toolPicker = createToolPicker(toolPickerEl, (tool) => {
+    if (!isSelectTool(tool)) {
+        clearSelection();
+    }
+    if (tool !== 'text') {
+        textEditor.commit();
+    }
+    redraw();
+});
+
+// Initialize custom color picker (also recolors the selection and the text being typed)
+const colorPicker = createColorPicker(colorPickerEl, (color) => {
+    if (editingText) {
+        textEditor.setColor(color);
+    }
+    // Images have no color of their own
+    if (selection.some(obj => obj.kind !== 'image')) {
+        updateSelectedStrokes('Recolor', obj => obj.kind === 'image' ? obj : { ...obj, color });
+    }
+}, () => {
+    eyedropperActive = true;
+    updateCanvasCursor();
+});
 
-// Initialize custom size picker
+// Initialize custom size picker (also resizes the selection)
 const sizePicker = createSizePicker(sizePickerEl, () => {
+    // Text keeps its font size (set in the text editor), images are resized by scaling
+    // and fills have no width
+    if (selection.some(obj => obj.kind !== 'text' && obj.kind !== 'image' && obj.kind !== 'fill')) {
+        const size = sizePicker.getCanvasSize();
+        updateSelectedStrokes('Resize', obj =>
+            obj.kind === 'text' || obj.kind === 'image' || obj.kind === 'fill' ? obj : { ...obj, size }
+        );
+    }
     redraw();
+}, () => viewTransform.scale);
+
+// Initialize text editor overlay
+const textEditor = createTextEditor(canvas, {
+    onCommit: commitTextEdit,
+    onCancel: () => {
+        editingText = null;
+        redraw();
+    }
 });
 
-// Calculate distance between two points
-function getDistance(p1: Point, p2: Point): number {
-    const dx = p2.x - p1.x;
-    const dy = p2.y - p1.y;
-    return Math.sqrt(dx * dx + dy * dy);
-}
+// Initialize document library
+const documentLibrary = createDocumentLibrary(libraryBtn, {
+    listDocuments,
+    onCreate: () => runDocumentTask(createNewDocument()),
+    onOpen: (id) => runDocumentTask(openDocumentById(id)),
+    onRename: (id, name) => runDocumentTask(renameDocumentById(id, name)),
+    onDuplicate: (id) => runDocumentTask(duplicateDocumentById(id)),
+    onDelete: (id) => runDocumentTask(deleteDocumentById(id)),
+    onImport: (file, mode) => runDocumentTask(importDocumentFile(file, mode))
+});
 
-// Calculate angle between two points
-function getAngle(p1: Point, p2: Point): number {
-    return Math.atan2(p2.y - p1.y, p2.x - p1.x);
-}
+// Initialize layers panel
+const layersPanel = createLayersPanel(layersBtn, {
+    getLayers: () => layers,
+    getActiveLayerId: () => activeLayerId,
+    onSelect: selectLayer,
+    onAdd: addLayer,
+    onRename: (id, name) => updateLayer(id, 'Rename layer', { name }),
+    onMove: moveLayer,
+    onToggleVisible: (id) => {
+        const layer = layers.find(l => l.id === id);
+        if (layer) updateLayer(id, layer.visible ? 'Hide layer' : 'Show layer', { visible: !layer.visible });
+    },
+    onToggleLocked: (id) => {
+        const layer = layers.find(l => l.id === id);
+        if (layer) updateLayer(id, layer.locked ? 'Unlock layer' : 'Lock layer', { locked: !layer.locked });
+    },
+    onOpacity: setLayerOpacity,
+    onDelete: deleteLayer
+});
 
-// Get midpoint between two points
-function getMidpoint(p1: Point, p2: Point): Point {
-    return {
-        x: (p1.x + p2.x) / 2,
-        y: (p1.y + p2.y) / 2
-    };
+// Initialize image menu (import and the locked background image)
+const imageMenu = createImageMenu(imageBtn, {
+    onImport: (files) => runDocumentTask(importImages(files, { x: viewWidth / 2, y: viewHeight / 2 })),
+    getBackground: () => strokeHistory.find(isBackgroundImage) ?? null,
+    onBackgroundOpacity: setBackgroundOpacity,
+    onUnlockBackground: () => updateBackground('Unlock background', obj => ({ ...obj, background: false })),
+    onRemoveBackground: () => updateBackground('Remove background', () => null)
+});
+
+// Redraw once images referenced by the drawing finish loading
+setImageLoadListener(() => {
+    loadedImageCount++;
+    redraw();
+});
+
+// Initialize minimap
+const minimap = createMinimap(minimapCanvas, {
+    getLayers: () => getVisibleLayerContents(layers, strokeHistory),
+    onNavigate: centerViewOn
+});
+
+// Initialize settings panel
+createSettingsPanel(settingsBtn, {
+    getSettings: () => settings,
+    onChange: (changed) => {
+        if (changed.liftModeDefault !== settings.liftModeDefault) {
+            liftModeCheckbox.checked = changed.liftModeDefault;
+        }
+        settings = changed;
+        saveSettings(settings);
+        redraw();
+    }
+});
+
+// Initialize grid menu
+createGridMenu(gridBtn, {
+    getSettings: () => settings,
+    onChange: (changed) => {
+        settings = changed;
+        saveSettings(settings);
+        redraw();
+    }
+});
+
+// Initialize symmetry menu; turning symmetry on centers it in the view
+createSymmetryMenu(symmetryBtn, {
+    getSymmetry: () => symmetry,
+    onChange: (changed) => {
+        const center = symmetry.mode === 'off' && changed.mode !== 'off'
+            ? screenToCanvas(getViewCenter())
+            : changed.center;
+        symmetry = { ...changed, center };
+        redraw();
+    },
+    onPlaceCenter: () => {
+        placingSymmetryCenter = true;
+        updateCanvasCursor();
+    },
+    onCenterInView: () => {
+        symmetry = { ...symmetry, center: screenToCanvas(getViewCenter()) };
+        redraw();
+    }
+});
+
+// Initialize replay player
+createReplayPlayer(replayBtn, {
+    getLayers: () => layers,
+    getObjects: () => strokeHistory,
+    getFileName: () => currentDocument?.name ?? 'drawing'
+});
+
+// Initialize collaboration panel
+const collabPanel = createCollabPanel(collabBtn, {
+    getStatus: () => collab?.getStatus() ?? null,
+    getPeers: () => collab?.getPeers() ?? [],
+    onJoin: joinSession,
+    onLeave: leaveSession
+});
+
+// Initialize export menu
+createExportMenu(exportBtn, {
+    getLayers: () => getVisibleLayerContents(layers, strokeHistory),
+    getFileName: () => currentDocument?.name ?? 'drawing',
+    getDocumentJSON: () => serializeDocument({
+        name: currentDocument?.name ?? 'drawing',
+        createdAt: currentDocument?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        canvas: { width: viewWidth, height: viewHeight },
+        viewTransform: { ...viewTransform },
+        layers,
+        strokes: strokeHistory
+    })
+});
+
+// Middle of the canvas element, which the view scales and rotates around
+function getViewCenter(): Point {
+    return { x: viewWidth / 2, y: viewHeight / 2 };
 }
 
 // Transform a point from screen coordinates to canvas coordinates
 function screenToCanvas(screenPos: Point): Point {
-    const cos = Math.cos(-viewTransform.rotation);
-    const sin = Math.sin(-viewTransform.rotation);
-
-    // Remove pan
-    const x1 = screenPos.x - viewTransform.panX;
-    const y1 = screenPos.y - viewTransform.panY;
+    return toCanvasPoint(viewTransform, screenPos, getViewCenter());
+}
 
-    // Remove rotation (rotate around center)
-    const cx = canvas.width / 2;
-    const cy = canvas.height / 2;
-    const x2 = cos * (x1 - cx) - sin * (y1 - cy) + cx;
-    const y2 = sin * (x1 - cx) + cos * (y1 - cy) + cy;
+// Transform a point from canvas coordinates to screen coordinates
+function canvasToScreen(canvasPos: Point): Point {
+    return toScreenPoint(viewTransform, canvasPos, getViewCenter());
+}
 
-    // Remove scale (scale around center)
-    const x3 = (x2 - cx) / viewTransform.scale + cx;
-    const y3 = (y2 - cy) / viewTransform.scale + cy;
+// Where the tool acts for a pointer position: right under a mouse or pen, offset from a finger
+function getToolPos(pos: Point): Point {
+    return directInput ? pos : getOffsetPos(pos);
+}
 
-    return { x: x3, y: y3 };
+// Tool cursor to show, if any
+function getCursorPos(): Point | null {
+    if (gestureMode === 'direct') return primaryPos;
+    if (gestureMode === 'none' && hoverPos) return hoverPos;
+    if (primaryPos && (gestureMode === 'drawing' || gestureMode === 'waiting' || gestureMode === 'size')) {
+        return getOffsetPos(primaryPos);
+    }
+    return null;
 }
 
-// Get offset position (up and left by 1/8th of canvas dimensions)
+// Touch cursor position for a finger, offset as set in the settings
 function getOffsetPos(pos: Point): Point {
+    const offset = getOffsetVector(settings);
     return {
-        x: pos.x - canvas.width / 8,
-        y: pos.y - canvas.height / 8
+        x: pos.x + offset.x,
+        y: pos.y + offset.y
     };
 }
 
-// Resize canvas to fill window
+// Resize canvas to fill the window below the toolbar, with a backing store of device pixels
+// so ink stays sharp
 function resizeCanvas() {
-    const toolbarHeight = 60;
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight - toolbarHeight;
+    // The toolbar grows by a scrollbar's height when its controls overflow
+    const toolbarHeight = toolbarEl.offsetHeight;
+    canvas.style.top = `${toolbarHeight}px`;
+    const width = window.innerWidth;
+    const height = Math.max(0, window.innerHeight - toolbarHeight);
+
+    // The view pivots on the canvas center; shift the pan by the center's move (undoing the
+    // scale and rotation applied around it) so the drawing stays put on screen
+    if (viewWidth > 0 && viewHeight > 0) {
+        const dx = (viewWidth - width) / 2;
+        const dy = (viewHeight - height) / 2;
+        const cos = Math.cos(viewTransform.rotation) * viewTransform.scale;
+        const sin = Math.sin(viewTransform.rotation) * viewTransform.scale;
+        viewTransform.panX += dx - (cos * dx - sin * dy);
+        viewTransform.panY += dy - (sin * dx + cos * dy);
+    }
+
+    viewWidth = width;
+    viewHeight = height;
+    pixelRatio = window.devicePixelRatio || 1;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    watchPixelRatio();
     redraw();
 }
 
-// Redraw all strokes from history + current state
+// Browser zoom and moving the window to another screen change devicePixelRatio, which
+// doesn't always come with a resize event
+function watchPixelRatio() {
+    pixelRatioQuery?.removeEventListener('change', resizeCanvas);
+    pixelRatioQuery = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    pixelRatioQuery.addEventListener('change', resizeCanvas);
+}
+
+// Schedule a redraw for the next animation frame; any number of calls before then
+// (e.g. several pointer events in one frame) render once
 function redraw() {
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (frameRequested) return;
+    frameRequested = true;
+    requestAnimationFrame(() => {
+        frameRequested = false;
+        renderFrame();
+    });
+}
 
-    // Apply view transform
-    ctx.save();
-    const cx = canvas.width / 2;
-    const cy = canvas.height / 2;
-    ctx.translate(viewTransform.panX, viewTransform.panY);
-    ctx.translate(cx, cy);
-    ctx.rotate(viewTransform.rotation);
-    ctx.scale(viewTransform.scale, viewTransform.scale);
-    ctx.translate(-cx, -cy);
-
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    // Draw completed strokes
-    strokeHistory.forEach(stroke => {
-        drawStroke(stroke);
+// Map canvas coordinates onto the device pixels of a context (replacing its transform)
+function applyViewTransform(target: CanvasRenderingContext2D) {
+    const cx = viewWidth / 2;
+    const cy = viewHeight / 2;
+    target.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    target.translate(viewTransform.panX, viewTransform.panY);
+    target.translate(cx, cy);
+    target.rotate(viewTransform.rotation);
+    target.scale(viewTransform.scale, viewTransform.scale);
+    target.translate(-cx, -cy);
+    target.lineCap = 'round';
+    target.lineJoin = 'round';
+}
+
+// Canvas-space corners of the screen, clockwise from its top-left
+function getViewCorners(): Point[] {
+    return [
+        { x: 0, y: 0 },
+        { x: viewWidth, y: 0 },
+        { x: viewWidth, y: viewHeight },
+        { x: 0, y: viewHeight }
+    ].map(screenToCanvas);
+}
+
+// Canvas-space box covering the whole (possibly rotated) view
+function getViewBounds(): Bounds {
+    return getPointsBounds(getViewCorners())!;
+}
+
+// Bounds of everything on visible layers, or null if they are empty
+function getContentBounds(): Bounds | null {
+    const visible = new Set(layers.filter(layer => layer.visible).map(layer => layer.id));
+    let bounds: Bounds | null = null;
+    strokeHistory.forEach(obj => {
+        const b = visible.has(obj.layerId) ? getObjectBounds(obj) : null;
+        if (!b) return;
+        bounds = bounds ? {
+            minX: Math.min(bounds.minX, b.minX),
+            minY: Math.min(bounds.minY, b.minY),
+            maxX: Math.max(bounds.maxX, b.maxX),
+            maxY: Math.max(bounds.maxY, b.maxY)
+        } : { ...b };
     });
+    return bounds;
+}
 
-    // Draw current in-progress stroke
-    if (currentStroke) {
-        drawStroke(currentStroke);
+// Move the view, animating unless told otherwise; saved with the drawing
+function setView(target: ViewTransform, animate = true) {
+    stopViewAnimation();
+    if (!animate) {
+        viewTransform = target;
+        redraw();
+        scheduleAutosave();
+        return;
     }
+    // Turn the short way round
+    const from = {
+        ...viewTransform,
+        rotation: target.rotation + normalizeRotation(viewTransform.rotation - target.rotation)
+    };
+    const start = performance.now();
+    const step = (now: number) => {
+        const t = Math.min(1, (now - start) / VIEW_ANIMATION_DURATION);
+        const eased = 1 - Math.pow(1 - t, 3);
+        viewTransform = t < 1 ? interpolateView(from, target, eased, getViewCenter()) : target;
+        renderFrame();
+        if (t < 1) {
+            viewAnimation = requestAnimationFrame(step);
+        } else {
+            viewAnimation = null;
+            scheduleAutosave();
+        }
+    };
+    viewAnimation = requestAnimationFrame(step);
+}
 
-    ctx.restore();
+function stopViewAnimation() {
+    if (viewAnimation !== null) {
+        cancelAnimationFrame(viewAnimation);
+        viewAnimation = null;
+        scheduleAutosave();
+    }
+}
 
-    // Draw preview/indicator rings (in screen space, not transformed)
-    if (primaryPos && (gestureMode === 'drawing' || gestureMode === 'waiting')) {
-        const offsetPos = getOffsetPos(primaryPos);
-        const size = sizePicker.getSize();
-        const drawColor = colorPicker.getColor();
-        const isWhite = drawColor.toUpperCase() === '#FFFFFF';
-        const outerColor = isWhite ? 'black' : drawColor;
-
-        // Always draw the same indicator style (two rings)
-        // Inner ring (white)
-        ctx.beginPath();
-        ctx.arc(offsetPos.x, offsetPos.y, size / 2 + 2, 0, Math.PI * 2);
-        ctx.strokeStyle = 'white';
-        ctx.lineWidth = 2;
-        ctx.stroke();
+function resetView() {
+    setView({ scale: 1, rotation: 0, panX: 0, panY: 0 });
+}
 
-        // Outer ring (draw color, or black if white)
-        ctx.beginPath();
-        ctx.arc(offsetPos.x, offsetPos.y, size / 2 + 4, 0, Math.PI * 2);
-        ctx.strokeStyle = outerColor;
-        ctx.lineWidth = 2;
-        ctx.stroke()
+// Zoom and pan so the whole drawing is on screen, keeping the rotation
+function fitContent() {
+    const bounds = getContentBounds();
+    if (!bounds) {
+        resetView();
+        return;
+    }
+    setView(getFitView(bounds, viewTransform.rotation, viewWidth, viewHeight, FIT_MARGIN));
+}
+
+// Turn the view upright around the middle of the screen
+function resetRotation() {
+    const center = getViewCenter();
+    setView(getViewAt(screenToCanvas(center), center, viewTransform.scale, 0, center));
+}
+
+// Center the view on a canvas point (minimap taps and drags)
+function centerViewOn(canvasPos: Point, animate: boolean) {
+    const center = getViewCenter();
+    setView(getViewAt(canvasPos, center, viewTransform.scale, viewTransform.rotation, center), animate);
+}
+
+// Zoom by `factor`, keeping the canvas point under `screenPos` in place
+function zoomAt(screenPos: Point, factor: number, animate = false) {
+    stopViewAnimation();
+    const scale = clampScale(viewTransform.scale * factor);
+    setView(getViewAt(screenToCanvas(screenPos), screenPos, scale, viewTransform.rotation, getViewCenter()), animate);
+}
+
+// Turn the view by one keyboard step around the middle of the screen, landing on a multiple of the step
+function rotateViewStep(direction: 1 | -1) {
+    stopViewAnimation();
+    const center = getViewCenter();
+    const steps = Math.round(viewTransform.rotation / KEY_ROTATION_STEP) + direction;
+    setView(getViewAt(screenToCanvas(center), center, viewTransform.scale, normalizeRotation(steps * KEY_ROTATION_STEP), center));
+}
+
+// Grab hand while Space is held or the view is being dragged
+function updateCanvasCursor() {
+    canvas.style.cursor = !documentRestored ? 'progress' : panStart ? 'grabbing' : spaceHeld ? 'grab' : eyedropperActive ? 'copy'
+        : placingSymmetryCenter ? 'cell' : 'crosshair';
+}
+
+// Zoom percentage, rotation button state and minimap
+function updateViewControls() {
+    zoomLevelEl.textContent = `${Math.round(viewTransform.scale * 100)}%`;
+    resetRotationBtn.disabled = Math.abs(normalizeRotation(viewTransform.rotation)) < 1e-3;
+    minimap.update(getViewCorners(), getContentBounds());
+}
+
+function getObjectBounds(obj: DrawingObject): Bounds | null {
+    if (!objectBounds.has(obj)) {
+        objectBounds.set(obj, getObjectsBounds([obj]));
+    }
+    return objectBounds.get(obj)!;
+}
+
+// Spatial index of strokeHistory, rebuilt whenever its contents change
+function getStrokeIndex(): SpatialIndex<DrawingObject> {
+    const unchanged = indexedStrokes.length === strokeHistory.length &&
+        strokeHistory.every((obj, i) => obj === indexedStrokes[i]);
+    if (!unchanged) {
+        strokeIndex = createSpatialIndex(strokeHistory, getObjectBounds);
+        indexedStrokes = strokeHistory.slice();
     }
+    return strokeIndex;
+}
+
+// Visible layers with only the objects that reach into the view
+function getLayerContentsInView(): LayerContent[] {
+    const inView = getStrokeIndex().query(getViewBounds());
+    const objects = strokeHistory.filter(obj => inView.has(obj) && obj !== editingText?.original);
+    return getVisibleLayerContents(layers, objects);
 }
 
-// Draw a single stroke
-function drawStroke(stroke: Stroke) {
-    if (stroke.points.length < 2) {
-        if (stroke.points.length === 1) {
-            ctx.fillStyle = stroke.color;
-            ctx.beginPath();
-            ctx.arc(stroke.points[0].x, stroke.points[0].y, stroke.size / 2, 0, Math.PI * 2);
-            ctx.fill();
+// Render a frame. Committed layers come from cached bitmaps, split around the layer of
+// the stroke or shape in progress, so drawing only re-renders that object and the overlays.
+function renderFrame() {
+    // Everything on the main context is drawn in CSS pixels
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, viewWidth, viewHeight);
+
+    const inProgress = currentStroke ?? currentShape;
+    const visibleLayers = layers.filter(layer => layer.visible);
+    const split = inProgress ? visibleLayers.findIndex(layer => layer.id === inProgress.layerId) : -1;
+    // An opaque layer can be cached with the layers below, as the new object goes on top of it;
+    // a translucent one is composited live so the new object blends with the rest of the layer
+    const liveLayer = split !== -1 && visibleLayers[split].opacity < 1 ? visibleLayers[split] : null;
+    const belowCount = split === -1 ? visibleLayers.length : liveLayer ? split : split + 1;
+    const aboveStart = split === -1 ? visibleLayers.length : split + 1;
+
+    const cacheKey = [
+        strokeHistory, layers, viewTransform.scale, viewTransform.rotation, viewTransform.panX,
+        viewTransform.panY, pixelRatio, editingText?.original ?? null, loadedImageCount,
+        settings.gridType, settings.gridSize
+    ];
+    let contents: LayerContent[] | null = null;
+    const drawLayerRange = (target: CanvasRenderingContext2D, start: number, end: number) => {
+        contents = contents ?? getLayerContentsInView();
+        const ids = new Set(visibleLayers.slice(start, end).map(layer => layer.id));
+        // The background image goes beneath the bottom layer
+        if (start === 0) ids.add(BACKGROUND_LAYER.id);
+        target.save();
+        applyViewTransform(target);
+        contents.filter(({ layer }) => ids.has(layer.id)).forEach(({ layer, strokes }) => {
+            drawLayer(target, strokes, layer.opacity, layerCanvas);
+        });
+        target.restore();
+    };
+
+    belowCache.draw(ctx, [...cacheKey, belowCount], target => {
+        // The grid sits beneath everything, in canvas space
+        target.save();
+        applyViewTransform(target);
+        const spacing = getGridSpacing(settings.gridType, settings.gridSize, viewTransform.scale);
+        drawGrid(target, settings.gridType, spacing, getViewBounds(), viewTransform.scale);
+        target.restore();
+        drawLayerRange(target, 0, belowCount);
+    });
+
+    if (inProgress) {
+        ctx.save();
+        applyViewTransform(ctx);
+        if (liveLayer) {
+            const content = getLayerContentsInView().find(({ layer }) => layer.id === liveLayer.id);
+            drawLayer(ctx, [...(content?.strokes ?? []), inProgress, ...symmetryCopies], liveLayer.opacity, layerCanvas);
+        } else {
+            drawObject(ctx, inProgress);
+            symmetryCopies.forEach(copy => drawObject(ctx, copy));
         }
-        return;
+        ctx.restore();
     }
 
-    ctx.strokeStyle = stroke.color;
-    ctx.lineWidth = stroke.size;
-    ctx.beginPath();
-    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    if (aboveStart < visibleLayers.length) {
+        aboveCache.draw(ctx, [...cacheKey, aboveStart], target => drawLayerRange(target, aboveStart, visibleLayers.length));
+    }
+
+    drawSymmetryGuides();
+    drawSelectionOverlay();
+    updateViewControls();
+
+    if (settings.showRulers) {
+        drawRulers(ctx, viewWidth, viewHeight, canvasToScreen({ x: 0, y: 0 }), viewTransform.scale, getCursorPos());
+    }
 
-    for (let i = 1; i < stroke.points.length; i++) {
-        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+    // Draw preview/indicator rings (in screen space, not transformed)
+    const offsetPos = getCursorPos();
+    if (offsetPos) {
+        const isEraser = toolPicker.getTool() === 'eraser' || toolPicker.getTool() === 'strokeEraser' || isSelectTool();
+        drawIndicatorRing(offsetPos, getIndicatorSize(), isEraser ? '#808080' : colorPicker.getColor());
     }
+
+    drawPeers();
+    updatePresence();
+}
+
+// Diameter of the cursor's indicator ring on screen
+function getIndicatorSize(): number {
+    return gestureMode !== 'size' && (isSelectTool() || toolPicker.getTool() === 'text' || toolPicker.getTool() === 'fill')
+        ? 4
+        : sizePicker.getScreenSize();
+}
+
+// Cursor indicator: a white ring inside one in the ink color
+function drawIndicatorRing(pos: Point, size: number, color: string) {
+    // Inner ring (white)
+    ctx.beginPath();
+    ctx.arc(pos.x, pos.y, size / 2 + 2, 0, Math.PI * 2);
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Outer ring (draw color, black if white, gray for erasers)
+    ctx.beginPath();
+    ctx.arc(pos.x, pos.y, size / 2 + 4, 0, Math.PI * 2);
+    ctx.strokeStyle = getOpaqueColor(color) === '#FFFFFF' ? 'black' : color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+}
+
+// Collaborators' strokes in progress and their cursors, labelled with their names
+function drawPeers() {
+    if (!collab) return;
+    const peers = collab.getPeers();
+    ctx.save();
+    applyViewTransform(ctx);
+    peers.forEach(({ presence }) => {
+        const live = presence?.live;
+        if (live && layers.some(layer => layer.id === live.layerId && layer.visible)) {
+            drawObject(ctx, live);
+        }
+    });
+    ctx.restore();
+
+    ctx.save();
+    ctx.font = '12px sans-serif';
+    ctx.textBaseline = 'top';
+    peers.forEach(({ name, presence }) => {
+        if (!presence?.cursor) return;
+        const pos = canvasToScreen(presence.cursor);
+        const size = presence.size * viewTransform.scale;
+        drawIndicatorRing(pos, size, presence.color);
+        const labelPos = { x: pos.x + size / 2 + 6, y: pos.y + size / 2 + 6 };
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = 'white';
+        ctx.strokeText(name, labelPos.x, labelPos.y);
+        ctx.fillStyle = '#333';
+        ctx.fillText(name, labelPos.x, labelPos.y);
+    });
+    ctx.restore();
+}
+
+// Symmetry axes (or radial segments) through the symmetry center, in screen space
+function drawSymmetryGuides() {
+    const { angles, rays } = getSymmetryGuides(symmetry);
+    if (angles.length === 0) return;
+    const center = canvasToScreen(symmetry.center);
+    const length = Math.hypot(viewWidth, viewHeight) + Math.hypot(center.x - viewWidth / 2, center.y - viewHeight / 2);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(217, 74, 160, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    angles.forEach(angle => {
+        const dx = Math.cos(angle + viewTransform.rotation) * length;
+        const dy = Math.sin(angle + viewTransform.rotation) * length;
+        ctx.moveTo(rays ? center.x : center.x - dx, rays ? center.y : center.y - dy);
+        ctx.lineTo(center.x + dx, center.y + dy);
+    });
     ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, 5, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+}
+
+// Selection frame, handles and in-progress lasso (in screen space)
+function drawSelectionOverlay() {
+    ctx.save();
+    ctx.strokeStyle = '#4a90d9';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 4]);
+
+    if (selectionPath) {
+        const shape = toolPicker.getTool() === 'rectSelect' ? 'rectangle' : 'lasso';
+        const polygon = getSelectionPolygon(shape, selectionPath).map(canvasToScreen);
+        tracePolygon(polygon);
+        ctx.stroke();
+    }
+
+    const handles = getSelectionHandles();
+    if (handles) {
+        tracePolygon(handles.corners);
+        ctx.stroke();
+
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.moveTo(handles.topCenter.x, handles.topCenter.y);
+        ctx.lineTo(handles.rotate.x, handles.rotate.y);
+        ctx.stroke();
+
+        ctx.fillStyle = 'white';
+        handles.corners.forEach(c => {
+            ctx.fillRect(c.x - HANDLE_SIZE / 2, c.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+            ctx.strokeRect(c.x - HANDLE_SIZE / 2, c.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+        });
+        ctx.beginPath();
+        ctx.arc(handles.rotate.x, handles.rotate.y, HANDLE_SIZE / 2, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+    }
+
+    ctx.restore();
+}
+
+function tracePolygon(points: Point[]) {
+    ctx.beginPath();
+    points.forEach((p, i) => {
+        if (i === 0) {
+            ctx.moveTo(p.x, p.y);
+        } else {
+            ctx.lineTo(p.x, p.y);
+        }
+    });
+    ctx.closePath();
 }
 
 // Get pointer position relative to canvas
-function getPointerPos(e: PointerEvent): Point {
+function getPointerPos(e: { clientX: number; clientY: number }): Point {
     const rect = canvas.getBoundingClientRect();
     return {
         x: e.clientX - rect.left,
@@ -210,19 +921,76 @@ function getPointerPos(e: PointerEvent): Point {
 // Enter drawing mode
 function enterDrawingMode() {
     gestureMode = 'drawing';
+    // Holding a finger still is not a tap
+    if (tap) tap.cancelled = true;
     redraw();
 }
 
 // Handle pointer down
 function handlePointerDown(e: PointerEvent) {
     e.preventDefault();
+    // Anything drawn now would be replaced by the drawing being restored
+    if (!documentRestored) return;
 
     const pos = getPointerPos(e);
+    stopViewAnimation();
+
+    // Touching the canvas finishes any text being typed
+    if (textEditor.isOpen()) {
+        textEditor.commit();
+        return;
+    }
+
+    // "Place center" takes the next touch or click
+    if (placingSymmetryCenter && primaryPointerId === null && !panStart) {
+        placingSymmetryCenter = false;
+        symmetry = { ...symmetry, center: screenToCanvas(pos) };
+        updateCanvasCursor();
+        redraw();
+        return;
+    }
+
+    // The eyedropper takes the next touch or click
+    if (eyedropperActive && primaryPointerId === null && !panStart) {
+        eyedropperActive = false;
+        updateCanvasCursor();
+        pickColorAt(pos);
+        return;
+    }
+
+    if (e.pointerType !== 'touch') {
+        handleDirectPointerDown(e, pos);
+        return;
+    }
+    if (isPalmTouch(e)) {
+        rejectedTouches.add(e.pointerId);
+        return;
+    }
+    // Fingers don't join in while a mouse or pen is drawing or panning
+    const mousePanning = panStart !== null && panStart.pointerId !== primaryPointerId;
+    if (mousePanning || (directInput && primaryPointerId !== null)) return;
+    directInput = false;
+    trackTapDown(e.pointerId, pos);
+
+    if (settings.stylusMode) {
+        handleNavigationTouchDown(e.pointerId, pos);
+        return;
+    }
 
     // First finger
     if (primaryPointerId === null) {
         primaryPointerId = e.pointerId;
         primaryPos = pos;
+        primarySample = samplePointer(e);
+
+        // Touching the selection manipulates it directly, without the offset cursor
+        const hit = isSelectTool() ? hitTestSelection(pos) : null;
+        if (hit) {
+            gestureMode = 'selection';
+            beginSelectionDrag(hit.kind, pos, hit.corner);
+            redraw();
+            return;
+        }
 
         // Start waiting period
         gestureMode = 'waiting';
@@ -231,7 +999,7 @@ function handlePointerDown(e: PointerEvent) {
             if (gestureMode === 'waiting') {
                 enterDrawingMode();
             }
-        }, GESTURE_DELAY);
+        }, settings.holdDelay);
 
         return;
     }
@@ -241,6 +1009,13 @@ function handlePointerDown(e: PointerEvent) {
         secondaryPointerId = e.pointerId;
         secondaryPos = pos;
 
+        // Second finger on a selection drag switches to pinch-transforming the selection
+        if (gestureMode === 'selection') {
+            beginSelectionDrag('pinch', primaryPos!);
+            redraw();
+            return;
+        }
+
         // If still in waiting period, this is a transform gesture
         if (gestureMode === 'waiting' && gestureTimer !== null) {
             clearTimeout(gestureTimer);
@@ -249,13 +1024,10 @@ function handlePointerDown(e: PointerEvent) {
 
             // Initialize transform tracking
             transformStart = {
-                primaryPos: { ...primaryPos! },
-                secondaryPos: { ...secondaryPos! },
-                distance: getDistance(primaryPos!, secondaryPos!),
-                angle: getAngle(primaryPos!, secondaryPos!),
-                midpoint: getMidpoint(primaryPos!, secondaryPos!),
+                pinch: measurePinch(primaryPos!, secondaryPos!),
                 initialTransform: { ...viewTransform }
             };
+            sizeGestureCandidate = { primary: primaryPos!, secondary: secondaryPos! };
 
             redraw();
             return;
@@ -264,13 +1036,7 @@ function handlePointerDown(e: PointerEvent) {
         // If in drawing mode, second finger starts/continues drawing
         if (gestureMode === 'drawing' && primaryPos) {
             if (!isDrawing) {
-                isDrawing = true;
-                const canvasPos = screenToCanvas(getOffsetPos(primaryPos));
-                currentStroke = {
-                    color: colorPicker.getColor(),
-                    size: sizePicker.getSize() / viewTransform.scale,
-                    points: [canvasPos]
-                };
+                beginToolAction(getToolPos(primaryPos));
             }
             redraw();
         }
@@ -281,48 +1047,279 @@ function handlePointerDown(e: PointerEvent) {
     // Third+ fingers - ignore
 }
 
-// Handle pointer move
-function handlePointerMove(e: PointerEvent) {
-    e.preventDefault();
+// A finger landed; the first one starts a possible tap
+function trackTapDown(pointerId: number, pos: Point) {
+    if (activeTouches.size === 0) {
+        tap = { start: performance.now(), fingers: 0, startPositions: new Map(), view: { ...viewTransform }, cancelled: false };
+    }
+    activeTouches.add(pointerId);
+    if (tap) {
+        tap.startPositions.set(pointerId, pos);
+        tap.fingers = Math.max(tap.fingers, activeTouches.size);
+    }
+}
 
-    const pos = getPointerPos(e);
+function trackTapMove(pointerId: number, pos: Point) {
+    const start = tap!.startPositions.get(pointerId);
+    if (start && Math.hypot(pos.x - start.x, pos.y - start.y) > TAP_SLOP) {
+        tap!.cancelled = true;
+    }
+}
 
-    // Update position tracking
-    if (e.pointerId === primaryPointerId) {
-        primaryPos = pos;
-    } else if (e.pointerId === secondaryPointerId) {
-        secondaryPos = pos;
-    } else {
-        return;
+// Runs after handlePointerUp: once the last finger of a quick, still two- or three-finger
+// tap lifts, undo or redo (as enabled in the settings) and put back any view change the
+// fingers made on the way
+function handleTapUp(e: PointerEvent) {
+    if (e.pointerType !== 'touch' || !activeTouches.delete(e.pointerId)) return;
+    if (!tap) return;
+    if (e.type === 'pointercancel' || performance.now() - tap.start > TAP_MAX_DURATION) {
+        tap.cancelled = true;
     }
+    if (activeTouches.size > 0) return;
+
+    const { fingers, view, cancelled } = tap;
+    tap = null;
+    if (cancelled) return;
+    const action = fingers === 2 && settings.twoFingerTapUndo ? undo
+        : fingers === 3 && settings.threeFingerTapRedo ? redo
+        : null;
+    if (!action) return;
+    viewTransform = view;
+    action();
+    redraw();
+}
 
-    // Handle transform gesture
-    if (gestureMode === 'transform' && transformStart && primaryPos && secondaryPos) {
-        const currentDistance = getDistance(primaryPos, secondaryPos);
-        const currentAngle = getAngle(primaryPos, secondaryPos);
-        const currentMidpoint = getMidpoint(primaryPos, secondaryPos);
+// Eyedropper: take the color of the topmost visible stroke, shape, text or fill at a screen position
+function pickColorAt(screenPos: Point) {
+    const canvasPos = screenToCanvas(screenPos);
+    const tolerance = EYEDROPPER_TOLERANCE / viewTransform.scale;
+    const nearby = getStrokeIndex().query(getPointsBounds([canvasPos], tolerance)!);
+    const candidates = getVisibleLayerContents(layers, strokeHistory.filter(obj => nearby.has(obj)))
+        .flatMap(content => content.strokes)
+        .reverse();
+    const hit = candidates.find(obj => {
+        if (obj.kind === 'image') return false;
+        if (obj.kind === 'text') return pointInPolygon(canvasPos, getTextBox(obj));
+        if (obj.kind === 'fill') return pointInFill(canvasPos, obj);
+        const reach = obj.size / 2 + tolerance;
+        return getObjectPaths(obj).some(path => path.length === 1
+            ? getDistance(canvasPos, path[0]) <= reach
+            : path.some((p, i) => i > 0 && distanceToSegment(canvasPos, path[i - 1], p) <= reach));
+    });
+    if (hit && hit.kind !== 'image') {
+        colorPicker.setColor(hit.color);
+        redraw();
+    }
+}
 
-        // Calculate scale and rotation changes
-        const scaleFactor = currentDistance / transformStart.distance;
-        const newScale = transformStart.initialTransform.scale * scaleFactor;
-        const rotationDelta = currentAngle - transformStart.angle;
-        const newRotation = transformStart.initialTransform.rotation + rotationDelta;
+// A contact much bigger than a fingertip, or in stylus mode any touch while the pen is on
+// or near the screen, is taken to be the hand resting on it
+function isPalmTouch(e: PointerEvent): boolean {
+    if (isLargeContact(e)) return true;
+    return settings.stylusMode && performance.now() - lastPenTime < PEN_TOUCH_GRACE;
+}
 
-        // The transform should be centered on the pinch midpoint
-        // We need to adjust pan so that the point under the initial midpoint stays under the current midpoint
-        const startMid = transformStart.midpoint;
-        const initT = transformStart.initialTransform;
+function isLargeContact(e: PointerEvent): boolean {
+    return Math.max(e.width, e.height) > PALM_CONTACT_SIZE;
+}
 
-        // Calculate where the initial midpoint was in canvas space
-        // Then calculate what pan is needed so that point ends up under current midpoint after new scale/rotation
-        const cos0 = Math.cos(-initT.rotation);
-        const sin0 = Math.sin(-initT.rotation);
-        const cx = canvas.width / 2;
-        const cy = canvas.height / 2;
+// Drop the touch gesture in progress and undo what it did so far; it was a palm
+function cancelTouchGesture() {
+    if (gestureTimer !== null) {
+        clearTimeout(gestureTimer);
+        gestureTimer = null;
+    }
+    if (transformStart) {
+        viewTransform = transformStart.initialTransform;
+        transformStart = null;
+    }
+    sizeGestureCandidate = null;
+    sizeGestureStart = null;
+    if (panStart) {
+        viewTransform = { ...viewTransform, panX: panStart.panX, panY: panStart.panY };
+        panStart = null;
+    }
+    if (eraseStart) {
+        strokeHistory = eraseStart;
+        eraseStart = null;
+        lastErasePos = null;
+    }
+    if (selectionDrag) {
+        strokeHistory = selectionDrag.before;
+        selectionDrag = null;
+    }
+    if (tap) tap.cancelled = true;
+    selectionPath = null;
+    currentStroke = null;
+    currentShape = null;
+    symmetryCopies = [];
+    shapeStart = null;
+    isDrawing = false;
+    primaryPointerId = null;
+    secondaryPointerId = null;
+    primaryPos = null;
+    secondaryPos = null;
+    gestureMode = 'none';
+    updateCanvasCursor();
+    redraw();
+}
 
-        // Point under start midpoint in canvas coordinates (reverse the initial transform)
-        const sx1 = startMid.x - initT.panX;
-        const sy1 = startMid.y - initT.panY;
+// Stylus mode: fingers never draw; one finger pans and two pinch to zoom and rotate
+function handleNavigationTouchDown(pointerId: number, pos: Point) {
+    if (primaryPointerId === null) {
+        primaryPointerId = pointerId;
+        primaryPos = pos;
+        beginTouchPan();
+    } else if (secondaryPointerId === null && gestureMode === 'pan') {
+        secondaryPointerId = pointerId;
+        secondaryPos = pos;
+        panStart = null;
+        gestureMode = 'transform';
+        transformStart = {
+            pinch: measurePinch(primaryPos!, secondaryPos),
+            initialTransform: { ...viewTransform }
+        };
+    }
+    redraw();
+}
+
+// The primary finger drags the view
+function beginTouchPan() {
+    panStart = { pointerId: primaryPointerId!, pos: primaryPos!, panX: viewTransform.panX, panY: viewTransform.panY };
+    gestureMode = 'pan';
+}
+
+// Mouse or pen: the middle button or Space + drag pans, otherwise the tool acts right
+// under the pointer from the moment it goes down
+function handleDirectPointerDown(e: PointerEvent, pos: Point) {
+    if (e.pointerType === 'pen') {
+        lastPenTime = performance.now();
+        // A touch gesture already under way when the pen lands is the palm that got there first
+        if (primaryPointerId !== null && !directInput) {
+            cancelTouchGesture();
+        }
+    }
+    if (primaryPointerId !== null || panStart) return;
+    if (e.button === 1 || (e.button === 0 && spaceHeld)) {
+        panStart = { pointerId: e.pointerId, pos, panX: viewTransform.panX, panY: viewTransform.panY };
+        gestureMode = 'pan';
+        canvas.setPointerCapture(e.pointerId);
+        updateCanvasCursor();
+        redraw();
+        return;
+    }
+    if (e.button !== 0) return;
+
+    directInput = true;
+    primaryPointerId = e.pointerId;
+    primaryPos = pos;
+    primarySample = samplePointer(e);
+    canvas.setPointerCapture(e.pointerId);
+
+    const hit = isSelectTool() ? hitTestSelection(pos) : null;
+    if (hit) {
+        gestureMode = 'selection';
+        beginSelectionDrag(hit.kind, pos, hit.corner);
+    } else {
+        gestureMode = 'direct';
+        beginToolAction(pos);
+    }
+    redraw();
+}
+
+// Handle pointer move
+function handlePointerMove(e: PointerEvent) {
+    e.preventDefault();
+
+    const pos = getPointerPos(e);
+    if (rejectedTouches.has(e.pointerId)) return;
+    if (e.pointerType === 'pen') {
+        lastPenTime = performance.now();
+    }
+
+    if (e.pointerType === 'touch') {
+        // A finger whose contact spreads out is a palm after all
+        const tracked = e.pointerId === primaryPointerId || e.pointerId === secondaryPointerId;
+        if (tracked && !directInput && isLargeContact(e)) {
+            rejectedTouches.add(e.pointerId);
+            cancelTouchGesture();
+            return;
+        }
+        if (tap) trackTapMove(e.pointerId, pos);
+    }
+
+    if (panStart && e.pointerId === panStart.pointerId) {
+        viewTransform.panX = panStart.panX + pos.x - panStart.pos.x;
+        viewTransform.panY = panStart.panY + pos.y - panStart.pos.y;
+        if (e.pointerId === primaryPointerId) {
+            primaryPos = pos;
+        }
+        redraw();
+        return;
+    }
+
+    // A hovering mouse or pen shows where the tool will act
+    if (e.pointerType !== 'touch' && e.pointerId !== primaryPointerId) {
+        hoverPos = pos;
+        redraw();
+        return;
+    }
+
+    // Update position tracking
+    if (e.pointerId === primaryPointerId) {
+        primaryPos = pos;
+        primarySample = samplePointer(e);
+    } else if (e.pointerId === secondaryPointerId) {
+        secondaryPos = pos;
+    } else {
+        return;
+    }
+
+    // Handle selection drag/pinch
+    if (gestureMode === 'selection') {
+        updateSelectionDrag();
+        redraw();
+        return;
+    }
+
+    if (gestureMode === 'transform' && sizeGestureCandidate && primaryPos && secondaryPos) {
+        if (!decideSizeGesture(primaryPos, secondaryPos)) return;
+    }
+
+    // Drag the second finger up to grow the brush, down to shrink it
+    if (gestureMode === 'size' && sizeGestureStart && secondaryPos) {
+        const factor = Math.pow(2, (sizeGestureStart.y - secondaryPos.y) / SIZE_GESTURE_RANGE);
+        sizePicker.setSize(sizeGestureStart.size * factor);
+        redraw();
+        return;
+    }
+
+    // Handle transform gesture
+    if (gestureMode === 'transform' && transformStart && primaryPos && secondaryPos) {
+        const current = measurePinch(primaryPos, secondaryPos);
+        const currentMidpoint = current.midpoint;
+
+        // Calculate scale and rotation changes
+        const scaleFactor = current.distance / transformStart.pinch.distance;
+        const newScale = clampScale(transformStart.initialTransform.scale * scaleFactor);
+        const rotationDelta = current.angle - transformStart.pinch.angle;
+        const newRotation = transformStart.initialTransform.rotation + (settings.pinchRotation ? rotationDelta : 0);
+
+        // The transform should be centered on the pinch midpoint
+        // We need to adjust pan so that the point under the initial midpoint stays under the current midpoint
+        const startMid = transformStart.pinch.midpoint;
+        const initT = transformStart.initialTransform;
+
+        // Calculate where the initial midpoint was in canvas space
+        // Then calculate what pan is needed so that point ends up under current midpoint after new scale/rotation
+        const cos0 = Math.cos(-initT.rotation);
+        const sin0 = Math.sin(-initT.rotation);
+        const cx = viewWidth / 2;
+        const cy = viewHeight / 2;
+
+        // Point under start midpoint in canvas coordinates (reverse the initial transform)
+        const sx1 = startMid.x - initT.panX;
+        const sy1 = startMid.y - initT.panY;
         const sx2 = cos0 * (sx1 - cx) - sin0 * (sy1 - cy) + cx;
         const sy2 = sin0 * (sx1 - cx) + cos0 * (sy1 - cy) + cy;
         const canvasX = (sx2 - cx) / initT.scale + cx;
@@ -346,6 +1343,14 @@ function handlePointerMove(e: PointerEvent) {
         return;
     }
 
+    if (gestureMode === 'direct' && e.pointerId === primaryPointerId) {
+        if (isDrawing) {
+            continueToolAction(pos);
+        }
+        redraw();
+        return;
+    }
+
     // Handle waiting mode - update indicator position
     if (gestureMode === 'waiting' && e.pointerId === primaryPointerId) {
         redraw();
@@ -355,11 +1360,10 @@ function handlePointerMove(e: PointerEvent) {
     // Handle drawing mode - only care about primary finger
     if (gestureMode === 'drawing' && e.pointerId === primaryPointerId) {
         const liftMode = liftModeCheckbox.checked;
-        const shouldDraw = isDrawing && currentStroke && (liftMode || secondaryPointerId !== null);
+        const shouldDraw = isDrawing && (liftMode || secondaryPointerId !== null);
 
         if (shouldDraw) {
-            const canvasPos = screenToCanvas(getOffsetPos(primaryPos!));
-            currentStroke!.points.push(canvasPos);
+            continueToolAction(getToolPos(primaryPos!));
         }
 
         redraw();
@@ -375,16 +1379,73 @@ function handlePointerMove(e: PointerEvent) {
 // Handle pointer up
 function handlePointerUp(e: PointerEvent) {
     e.preventDefault();
+    if (rejectedTouches.delete(e.pointerId)) return;
+    if (e.pointerType === 'pen') {
+        lastPenTime = performance.now();
+    }
+
+    if (panStart) {
+        if (e.pointerId !== panStart.pointerId) return;
+        if (e.pointerId === primaryPointerId) {
+            primaryPointerId = null;
+            primaryPos = null;
+        }
+        panStart = null;
+        gestureMode = 'none';
+        updateCanvasCursor();
+        scheduleAutosave();
+        redraw();
+        return;
+    }
+
+    // A mouse or pen that isn't pressed just stops hovering when it leaves
+    if (e.pointerType !== 'touch' && e.pointerId !== primaryPointerId) {
+        if (e.type === 'pointerleave') {
+            hoverPos = null;
+            redraw();
+        }
+        return;
+    }
+
+    if (gestureMode === 'direct') {
+        if (e.pointerId !== primaryPointerId) return;
+        primaryPointerId = null;
+        primaryPos = null;
+        gestureMode = 'none';
+        hoverPos = e.type === 'pointerleave' ? null : getPointerPos(e);
+        if (isDrawing) {
+            finishToolAction();
+        } else {
+            redraw();
+        }
+        return;
+    }
+
+    // Handle selection drag end; any lifted finger finishes it
+    if (gestureMode === 'selection') {
+        if (e.pointerId !== primaryPointerId && e.pointerId !== secondaryPointerId) return;
+        finishSelectionDrag();
+        primaryPointerId = null;
+        secondaryPointerId = null;
+        primaryPos = null;
+        secondaryPos = null;
+        gestureMode = 'none';
+        redraw();
+        return;
+    }
 
-    // Handle transform gesture end
-    if (gestureMode === 'transform') {
+    // Handle transform (or size) gesture end
+    if (gestureMode === 'transform' || gestureMode === 'size') {
         transformStart = null;
+        sizeGestureCandidate = null;
+        sizeGestureStart = null;
+        scheduleAutosave();
 
         if (e.pointerId === secondaryPointerId) {
             // Second finger lifted - transition to drawing mode with primary finger
             secondaryPointerId = null;
             secondaryPos = null;
-            gestureMode = 'drawing';
+            continueWithOneFinger();
             redraw();
             return;
         }
@@ -395,7 +1456,7 @@ function handlePointerUp(e: PointerEvent) {
                 primaryPos = secondaryPos;
                 secondaryPointerId = null;
                 secondaryPos = null;
-                gestureMode = 'drawing';
+                continueWithOneFinger();
                 redraw();
                 return;
             }
@@ -415,9 +1476,17 @@ function handlePointerUp(e: PointerEvent) {
             gestureTimer = null;
         }
         if (e.pointerId === primaryPointerId) {
+            const tapPos = primaryPos;
             primaryPointerId = null;
             primaryPos = null;
             gestureMode = 'none';
+            // With the text tool, a tap places (or re-opens) text right where it lands;
+            // with the fill tool it fills there
+            if (toolPicker.getTool() === 'text' && tapPos) {
+                editTextAt(tapPos);
+            } else if (toolPicker.getTool() === 'fill' && tapPos) {
+                fillAt(tapPos);
+            }
         }
         return;
     }
@@ -432,67 +1501,994 @@ function handlePointerUp(e: PointerEvent) {
             secondaryPos = null;
 
             // In non-lift mode, save stroke when second finger lifts
-            if (!liftMode && currentStroke && currentStroke.points.length > 0) {
-                strokeHistory.push(currentStroke);
-                updateUndoButton();
-                currentStroke = null;
-                isDrawing = false;
+            if (!liftMode && isDrawing) {
+                finishToolAction();
+            } else {
+                redraw();
             }
-
-            redraw();
             return;
         }
 
         // Primary finger lifted - save stroke and reset
         if (e.pointerId === primaryPointerId) {
-            if (currentStroke && currentStroke.points.length > 0) {
-                strokeHistory.push(currentStroke);
-                updateUndoButton();
-            }
             primaryPointerId = null;
             secondaryPointerId = null;
             primaryPos = null;
             secondaryPos = null;
-            currentStroke = null;
-            isDrawing = false;
             gestureMode = 'none';
+            if (isDrawing) {
+                finishToolAction();
+            } else {
+                redraw();
+            }
+        }
+    }
+}
+
+// Once a finger has moved far enough, settle whether two fingers from 'waiting' pinch or
+// change the size. False while it is still undecided (and nothing should move yet).
+function decideSizeGesture(primary: Point, secondary: Point): boolean {
+    const candidate = sizeGestureCandidate!;
+    const primaryMoved = getDistance(primary, candidate.primary);
+    const dx = secondary.x - candidate.secondary.x;
+    const dy = secondary.y - candidate.secondary.y;
+    if (primaryMoved < SIZE_GESTURE_SLOP && Math.hypot(dx, dy) < SIZE_GESTURE_SLOP) return false;
+
+    sizeGestureCandidate = null;
+    if (primaryMoved < SIZE_GESTURE_SLOP / 2 && Math.abs(dy) > Math.abs(dx) * 2) {
+        gestureMode = 'size';
+        sizeGestureStart = { y: candidate.secondary.y, size: sizePicker.getSize() };
+        transformStart = null;
+    }
+    return true;
+}
+
+// After a pinch, the finger left on the screen draws (or in stylus mode pans)
+function continueWithOneFinger() {
+    if (settings.stylusMode) {
+        beginTouchPan();
+    } else {
+        gestureMode = 'drawing';
+    }
+}
+
+// Start the active tool at the cursor position (screen coordinates)
+function beginToolAction(cursorPos: Point) {
+    const canvasPos = screenToCanvas(cursorPos);
+    isDrawing = true;
+    if (tap) tap.cancelled = true;
+    // Hidden or locked layers can't be edited; the gesture just moves the cursor
+    if (!isLayerEditable(activeLayerId)) return;
+    if (toolPicker.getTool() === 'text') {
+        isDrawing = false;
+        editTextAt(cursorPos);
+        return;
+    }
+    if (toolPicker.getTool() === 'fill') {
+        isDrawing = false;
+        fillAt(cursorPos);
+        return;
+    }
+    if (isSelectTool()) {
+        clearSelection();
+        selectionPath = [canvasPos];
+    } else if (toolPicker.getTool() === 'pen') {
+        strokeStartTime = primarySample ? primarySample.time : performance.now();
+        pressureEstimator.reset();
+        stabilizer.reset(cursorPos);
+        currentStroke = {
+            kind: 'stroke',
+            id: createId(),
+            layerId: activeLayerId,
+            color: colorPicker.getColor(),
+            size: sizePicker.getCanvasSize(),
+            points: [createStrokePoint(snapCanvasPoint(canvasPos))]
+        };
+        symmetryMatrices = getSymmetryMatrices(symmetry);
+        symmetryCopies = symmetryMatrices.map(m => transformObject(currentStroke!, m));
+    } else if (isShapeKind(toolPicker.getTool())) {
+        shapeStart = snapCanvasPoint(canvasPos);
+        symmetryMatrices = getSymmetryMatrices(symmetry);
+        updateShape(cursorPos);
+    } else {
+        eraseStart = strokeHistory.slice();
+        lastErasePos = canvasPos;
+        eraseAlong(canvasPos, canvasPos);
+    }
+}
+
+// Extend the active tool's action to a new cursor position (screen coordinates)
+function continueToolAction(cursorPos: Point) {
+    if (selectionPath) {
+        selectionPath.push(screenToCanvas(cursorPos));
+    } else if (currentStroke) {
+        // The stabilized brush trails the cursor; skip samples where it stays put
+        const brushPos = stabilizer.update(cursorPos, parseFloat(stabilizerSelect.value));
+        const canvasPos = brushPos ? snapCanvasPoint(screenToCanvas(brushPos)) : null;
+        const last = currentStroke.points[currentStroke.points.length - 1];
+        // Snapped to the grid, the brush stays on a grid point until it reaches the next one
+        if (canvasPos && (canvasPos.x !== last.x || canvasPos.y !== last.y)) {
+            addStrokePoint(canvasPos);
+        }
+    } else if (currentShape) {
+        updateShape(cursorPos);
+    } else if (lastErasePos) {
+        const canvasPos = screenToCanvas(cursorPos);
+        eraseAlong(lastErasePos, canvasPos);
+        lastErasePos = canvasPos;
+    }
+}
+
+// Append a point to the stroke in progress and its symmetric copies
+function addStrokePoint(canvasPos: Point) {
+    const point = createStrokePoint(canvasPos);
+    currentStroke!.points.push(point);
+    symmetryCopies.forEach((copy, i) => copy.points.push({ ...point, ...applyMatrix(symmetryMatrices[i], point) }));
+}
+
+// Reshape the in-progress shape so it spans from its start to the cursor (screen coordinates).
+// Snapping and aspect lock work in screen space so they match what the user sees.
+function updateShape(cursorPos: Point) {
+    const kind = toolPicker.getTool();
+    if (!shapeStart || !isShapeKind(kind)) return;
+    const constrain = snapShapesCheckbox.checked || shiftHeld;
+    const end = settings.snapToGrid ? canvasToScreen(snapCanvasPoint(screenToCanvas(cursorPos))) : cursorPos;
+    const points = getShapePoints(kind, canvasToScreen(shapeStart), end, constrain, toolPicker.getPolygonSides());
+    currentShape = {
+        kind,
+        id: currentShape?.id ?? createId(),
+        layerId: activeLayerId,
+        color: colorPicker.getColor(),
+        size: sizePicker.getCanvasSize(),
+        points: points.map(screenToCanvas)
+    };
+    symmetryCopies = symmetryMatrices.map(m => transformObject(currentShape!, m));
+}
+
+// Attach the primary pointer's timing (used to replay the stroke) and, in pressure mode,
+// its pressure/tilt to a stroke point
+function createStrokePoint(canvasPos: Point): Point {
+    const point: Point = {
+        x: canvasPos.x,
+        y: canvasPos.y,
+        t: Math.round((primarySample ? primarySample.time : performance.now()) - strokeStartTime)
+    };
+    if (!primarySample || !primaryPos) return point;
+
+    if (pressureModeCheckbox.checked) {
+        const { pressure, tilt } = pressureEstimator.estimate(primarySample, primaryPos);
+        point.pressure = Math.round(pressure * 1000) / 1000;
+        if (tilt !== undefined) {
+            point.tilt = Math.round(tilt * 1000) / 1000;
+        }
+    }
+    return point;
+}
+
+// Nearest grid point to a canvas position when snapping to the grid
+function snapCanvasPoint(canvasPos: Point): Point {
+    if (!settings.snapToGrid) return canvasPos;
+    return snapToGrid(settings.gridType, getGridSpacing(settings.gridType, settings.gridSize, viewTransform.scale), canvasPos);
+}
+
+// End the active tool's action and add its result to the history
+function finishToolAction() {
+    // The stabilized brush trails the cursor; bring it to where the pointer lifted
+    const endPos = currentStroke ? stabilizer.finish() : null;
+    if (currentStroke && endPos) {
+        const canvasPos = snapCanvasPoint(screenToCanvas(endPos));
+        const last = currentStroke.points[currentStroke.points.length - 1];
+        if (canvasPos.x !== last.x || canvasPos.y !== last.y) {
+            addStrokePoint(canvasPos);
+        }
+    }
+    const stroke = currentStroke;
+    const shape = currentShape;
+    const before = eraseStart;
+    const path = selectionPath;
+    currentStroke = null;
+    currentShape = null;
+    symmetryCopies = [];
+    shapeStart = null;
+    eraseStart = null;
+    lastErasePos = null;
+    selectionPath = null;
+    isDrawing = false;
+
+    if (path) {
+        const selectionShape = toolPicker.getTool() === 'rectSelect' ? 'rectangle' : 'lasso';
+        const candidates = strokeHistory.filter(obj => obj.layerId === activeLayerId && !isBackgroundImage(obj));
+        setSelection(selectObjects(candidates, getSelectionPolygon(selectionShape, path)));
+        redraw();
+    } else if (stroke && stroke.points.length > 0) {
+        stroke.points = simplifyPoints(stroke.points, SIMPLIFY_TOLERANCE / viewTransform.scale, stroke.size);
+        commitWithSymmetry(stroke);
+    } else if (shape && shape.points.some(p => p.x !== shape.points[0].x || p.y !== shape.points[0].y)) {
+        // A tap without dragging leaves no shape
+        commitWithSymmetry(shape);
+    } else if (before && hasStrokesChanged(before)) {
+        editHistory.record(createEditCommand(() => strokeHistory, 'Erase', before, strokeHistory.slice()));
+    } else {
+        redraw();
+    }
+}
+
+// Sweep the eraser (sized like the pen cursor) between two canvas positions; only the
+// active layer is affected
+function eraseAlong(from: Point, to: Point) {
+    const radius = sizePicker.getCanvasSize() / 2;
+    const erase = toolPicker.getTool() === 'strokeEraser' ? eraseWholeStrokes : eraseStrokeSegments;
+    const nearby = getStrokeIndex().query(getPointsBounds([from, to], radius)!);
+    strokeHistory = strokeHistory.flatMap(stroke =>
+        stroke.layerId === activeLayerId && nearby.has(stroke) ? erase([stroke], from, to, radius) : [stroke]
+    );
+}
+
+function isSelectTool(tool: Tool = toolPicker.getTool()): boolean {
+    return tool === 'lassoSelect' || tool === 'rectSelect';
+}
+
+function setSelection(objects: DrawingObject[]) {
+    selection = objects;
+    const bounds = getObjectsBounds(objects);
+    selectionFrame = bounds ? getFrameFromBounds(bounds) : null;
+    selectionBar.hidden = selection.length === 0;
+    backgroundSelectionBtn.hidden = !(selection.length === 1 && selection[0].kind === 'image');
+}
+
+function clearSelection() {
+    if (selection.length > 0 || selectionFrame) {
+        setSelection([]);
+    }
+}
+
+// Drop selected strokes that are no longer in the drawing (e.g. after undo) or whose
+// layer was hidden or locked
+function syncSelection() {
+    if (selection.length === 0) return;
+    const present = new Set(strokeHistory);
+    const remaining = selection.filter(stroke => present.has(stroke) && isLayerEditable(stroke.layerId));
+    if (remaining.length !== selection.length) {
+        setSelection(remaining);
+    }
+}
+
+// Screen positions of the selection frame's corners and rotate handle
+function getSelectionHandles(): { corners: Point[]; topCenter: Point; rotate: Point } | null {
+    if (!selectionFrame || selection.length === 0) return null;
+    const corners = selectionFrame.map(canvasToScreen);
+    const center = getFrameCenter(corners);
+    const topCenter = { x: (corners[0].x + corners[1].x) / 2, y: (corners[0].y + corners[1].y) / 2 };
+    const distance = getDistance(center, topCenter) || 1;
+    return {
+        corners,
+        topCenter,
+        rotate: {
+            x: topCenter.x + (topCenter.x - center.x) / distance * ROTATE_HANDLE_DISTANCE,
+            y: topCenter.y + (topCenter.y - center.y) / distance * ROTATE_HANDLE_DISTANCE
+        }
+    };
+}
+
+// Which part of the selection (if any) is under a screen position
+function hitTestSelection(pos: Point): { kind: SelectionDragKind; corner?: number } | null {
+    const handles = getSelectionHandles();
+    if (!handles) return null;
+    const reach = HANDLE_SIZE;
+    if (getDistance(pos, handles.rotate) <= reach) {
+        return { kind: 'rotate' };
+    }
+    const corner = handles.corners.findIndex(c => getDistance(pos, c) <= reach);
+    if (corner !== -1) {
+        return { kind: 'scale', corner };
+    }
+    if (pointInPolygon(pos, handles.corners)) {
+        return { kind: 'move' };
+    }
+    return null;
+}
+
+// Start moving/scaling/rotating the selection from a screen position
+function beginSelectionDrag(kind: SelectionDragKind, pos: Point, corner = 0) {
+    if (!selectionFrame) return;
+    if (tap) tap.cancelled = true;
+    const before = selectionDrag ? selectionDrag.before : strokeHistory.slice();
+    const anchor = kind === 'scale' ? selectionFrame[(corner + 2) % 4] : getFrameCenter(selectionFrame);
+    selectionDrag = {
+        kind,
+        startPos: screenToCanvas(pos),
+        anchor,
+        pinch: kind === 'pinch' && primaryPos && secondaryPos ? measurePinch(primaryPos, secondaryPos) : null,
+        originalStrokes: selection,
+        originalFrame: selectionFrame,
+        before
+    };
+}
+
+// Matrix for the current drag, in canvas coordinates
+function getSelectionDragMatrix(): Matrix | null {
+    if (!selectionDrag || !primaryPos) return null;
+    const { kind, startPos, anchor, pinch } = selectionDrag;
+    const current = screenToCanvas(primaryPos);
+
+    if (kind === 'pinch') {
+        if (!pinch || !secondaryPos) return null;
+        // Same pinch math as the view transform, applied to the selection in canvas space
+        const now = measurePinch(primaryPos, secondaryPos);
+        return getSimilarityMatrix(
+            screenToCanvas(pinch.midpoint),
+            screenToCanvas(now.midpoint),
+            now.distance / pinch.distance,
+            now.angle - pinch.angle
+        );
+    }
+    if (kind === 'scale') {
+        const startDistance = getDistance(anchor, startPos);
+        const scale = startDistance > 0 ? Math.max(0.05, getDistance(anchor, current) / startDistance) : 1;
+        return getSimilarityMatrix(anchor, anchor, scale, 0);
+    }
+    if (kind === 'rotate') {
+        return getSimilarityMatrix(anchor, anchor, 1, getAngle(anchor, current) - getAngle(anchor, startPos));
+    }
+    return getSimilarityMatrix(startPos, current, 1, 0);
+}
+
+// Apply the current drag to the selected strokes (live; recorded when the drag ends)
+function updateSelectionDrag() {
+    const m = getSelectionDragMatrix();
+    if (!selectionDrag || !m) return;
+
+    const transformed = selectionDrag.originalStrokes.map(obj => transformObject(obj, m));
+    const replacements = new Map(selection.map((stroke, i) => [stroke, transformed[i]]));
+    strokeHistory = strokeHistory.map(stroke => replacements.get(stroke) ?? stroke);
+    selection = transformed;
+    selectionFrame = selectionDrag.originalFrame.map(p => applyMatrix(m, p));
+}
+
+function finishSelectionDrag() {
+    if (!selectionDrag) return;
+    const before = selectionDrag.before;
+    selectionDrag = null;
+    if (hasStrokesChanged(before)) {
+        editHistory.record(createEditCommand(() => strokeHistory, 'Transform selection', before, strokeHistory.slice()));
+    }
+}
+
+// Replace each selected stroke with an edited copy as one undoable command
+function updateSelectedStrokes(label: string, update: (obj: DrawingObject) => DrawingObject) {
+    const updated = selection.map(update);
+    const replacements = new Map(selection.map((stroke, i) => [stroke, updated[i]]));
+    const after = strokeHistory.map(stroke => replacements.get(stroke) ?? stroke);
+    // Keep the frame (it may be rotated) while pointing the selection at the new strokes
+    selection = updated;
+    editStrokes(label, after);
+}
+
+function deleteSelection() {
+    if (selection.length === 0) return;
+    const selected = new Set(selection);
+    clearSelection();
+    editStrokes('Delete', strokeHistory.filter(stroke => !selected.has(stroke)));
+}
+
+// Copy the selection slightly down and to the right, then select the copies
+function duplicateSelection() {
+    if (selection.length === 0) return;
+    const offset = 20 / viewTransform.scale;
+    const shift = getSimilarityMatrix({ x: 0, y: 0 }, { x: offset, y: offset }, 1, 0);
+    const copies = selection.map(obj => ({ ...transformObject(obj, shift), id: createId() }));
+    const frame = selectionFrame?.map(p => applyMatrix(shift, p)) ?? null;
+    editStrokes('Duplicate', [...strokeHistory, ...copies]);
+    setSelection(copies);
+    selectionFrame = frame;
+    redraw();
+}
+
+function isLayerEditable(id: string): boolean {
+    const layer = layers.find(l => l.id === id);
+    return !!layer && layer.visible && !layer.locked;
+}
+
+// Keep the active layer pointing at an existing layer (e.g. after undoing "Add layer")
+function syncActiveLayer() {
+    if (!layers.some(layer => layer.id === activeLayerId) && layers.length > 0) {
+        activeLayerId = layers[layers.length - 1].id;
+    }
+}
+
+function selectLayer(id: string) {
+    activeLayerId = id;
+    clearSelection();
+    layersPanel.refresh();
+    redraw();
+}
+
+// Replace the layer list with an edited copy as a single undoable command.
+// Changed layers must be new objects, since edits are tracked by identity.
+function editLayers(label: string, after: Layer[]) {
+    editHistory.execute(createEditCommand(() => layers, label, layers.slice(), after));
+}
+
+function updateLayer(id: string, label: string, changes: Partial<Layer>) {
+    editLayers(label, layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
+}
+
+// Add a layer above the active one and make it active
+function addLayer() {
+    const layer = createLayer(createId(), getNextLayerName(layers));
+    const index = layers.findIndex(l => l.id === activeLayerId) + 1;
+    activeLayerId = layer.id;
+    clearSelection();
+    editLayers('Add layer', [...layers.slice(0, index), layer, ...layers.slice(index)]);
+}
+
+// Move a layer up (+1) or down (-1) in the stack
+function moveLayer(id: string, offset: number) {
+    const index = layers.findIndex(layer => layer.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= layers.length) return;
+    const after = layers.filter(layer => layer.id !== id);
+    after.splice(target, 0, { ...layers[index] });
+    editLayers('Move layer', after);
+}
+
+// Opacity changes apply live while the slider moves and are recorded once it is released
+function setLayerOpacity(id: string, opacity: number, final: boolean) {
+    if (!opacityEditStart) {
+        opacityEditStart = layers.slice();
+    }
+    layers = layers.map(layer => layer.id === id ? { ...layer, opacity } : layer);
+    if (!final) {
+        redraw();
+        return;
+    }
+    const before = opacityEditStart;
+    opacityEditStart = null;
+    // A slider dragged back to where it started leaves nothing to undo
+    if (before.find(layer => layer.id === id)?.opacity === opacity) {
+        layers = before;
+        redraw();
+        return;
+    }
+    editHistory.record(createEditCommand(() => layers, 'Layer opacity', before, layers.slice()));
+}
+
+// Delete a layer together with its strokes (as one undoable step); the last layer stays
+function deleteLayer(id: string) {
+    if (layers.length <= 1) return;
+    clearSelection();
+    editHistory.execute(createCompoundCommand('Delete layer', [
+        createEditCommand(() => strokeHistory, 'Delete layer', strokeHistory.slice(),
+            strokeHistory.filter(stroke => stroke.layerId !== id)),
+        createEditCommand(() => layers, 'Delete layer', layers.slice(), layers.filter(layer => layer.id !== id))
+    ]));
+}
+
+// Add image files to the active layer, centered on a screen position and fitted into the
+// view; they stay selected so they can be moved and scaled right away
+async function importImages(files: File[], screenPos: Point) {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length === 0 || !documentRestored) return;
+    if (!isLayerEditable(activeLayerId)) {
+        window.alert('The active layer is hidden or locked.');
+        return;
+    }
+
+    const added: ImageObject[] = [];
+    for (const file of imageFiles) {
+        try {
+            const { src, width, height } = await readImageFile(file);
+            const fit = Math.min(1, viewWidth * 0.8 / width, viewHeight * 0.8 / height);
+            const offset = added.length * 20;
+            const left = screenPos.x - width * fit / 2 + offset;
+            const top = screenPos.y - height * fit / 2 + offset;
+            const right = left + width * fit;
+            const bottom = top + height * fit;
+            const corners = [
+                { x: left, y: top },
+                { x: right, y: top },
+                { x: right, y: bottom },
+                { x: left, y: bottom }
+            ].map(screenToCanvas);
+            added.push(createImageObject(activeLayerId, src, corners));
+        } catch (err) {
+            window.alert(`Could not import "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+    if (added.length === 0) return;
+
+    resetGestureState();
+    editStrokes(added.length === 1 ? 'Import image' : 'Import images', [...strokeHistory, ...added]);
+    if (!isSelectTool()) {
+        toolPicker.setTool('rectSelect');
+    }
+    setSelection(added);
+    redraw();
+}
+
+// Lock the selected image as the background reference (there is only ever one)
+function useSelectionAsBackground() {
+    const image = selection[0];
+    if (selection.length !== 1 || image.kind !== 'image') return;
+    clearSelection();
+    editStrokes('Use as background', strokeHistory.map(obj => {
+        if (obj === image) return { ...image, background: true };
+        return isBackgroundImage(obj) ? { ...obj, background: false } : obj;
+    }));
+}
+
+// Replace (or with null, remove) the background image as one undoable command
+function updateBackground(label: string, update: (obj: ImageObject) => ImageObject | null) {
+    const background = strokeHistory.find(isBackgroundImage);
+    if (!background) return;
+    const updated = update(background);
+    editStrokes(label, updated
+        ? strokeHistory.map(obj => obj === background ? updated : obj)
+        : strokeHistory.filter(obj => obj !== background));
+}
+
+// Live background opacity while the slider moves; recorded once it is released
+function setBackgroundOpacity(opacity: number, final: boolean) {
+    if (!backgroundEditStart) {
+        backgroundEditStart = strokeHistory.slice();
+    }
+    strokeHistory = strokeHistory.map(obj => isBackgroundImage(obj) ? { ...obj, opacity } : obj);
+    if (!final) {
+        redraw();
+        return;
+    }
+    const before = backgroundEditStart;
+    backgroundEditStart = null;
+    if (hasStrokesChanged(before)) {
+        editHistory.record(createEditCommand(() => strokeHistory, 'Background opacity', before, strokeHistory.slice()));
+    }
+}
+
+// Re-edit the topmost text under a screen position, or start new text there
+function editTextAt(screenPos: Point) {
+    if (!isLayerEditable(activeLayerId)) return;
+    const canvasPos = screenToCanvas(screenPos);
+    const hit = strokeHistory.slice().reverse().find((obj): obj is TextObject =>
+        obj.kind === 'text' && obj.layerId === activeLayerId && pointInPolygon(canvasPos, getTextBox(obj))
+    );
+
+    if (hit) {
+        editingText = { original: hit, origin: hit.points[0], rotation: getTextRotation(hit) };
+        textEditor.open({
+            position: canvasToScreen(hit.points[0]),
+            rotation: getTextRotation(hit) + viewTransform.rotation,
+            fontSize: hit.size * viewTransform.scale,
+            color: hit.color,
+            text: hit.text
+        });
+    } else {
+        // New text reads upright on screen, whatever the view rotation
+        editingText = { original: null, origin: canvasPos, rotation: -viewTransform.rotation };
+        textEditor.open({
+            position: screenPos,
+            rotation: 0,
+            fontSize: textEditor.getFontSize(),
+            color: colorPicker.getColor(),
+            text: ''
+        });
+    }
+    redraw();
+}
+
+// Turn the editor's contents into a text object; clearing the text deletes it
+function commitTextEdit(text: string, fontSize: number, color: string) {
+    const edit = editingText;
+    editingText = null;
+    if (!edit) return;
+
+    const original = edit.original && strokeHistory.includes(edit.original) ? edit.original : null;
+    if (!text.trim()) {
+        if (original) {
+            editStrokes('Delete text', strokeHistory.filter(obj => obj !== original));
+        } else {
+            redraw();
+        }
+        return;
+    }
+
+    const layerId = original ? original.layerId : activeLayerId;
+    const obj = createTextObject(layerId, edit.origin, edit.rotation, text, color, fontSize / viewTransform.scale);
+    if (original) {
+        if (text === original.text && color === original.color && obj.size === original.size) {
             redraw();
+            return;
         }
+        editStrokes('Edit text', strokeHistory.map(o => o === original ? { ...obj, id: original.id } : o));
+    } else {
+        commitStroke(obj);
+    }
+}
+
+// Whether strokeHistory differs from an earlier snapshot
+function hasStrokesChanged(snapshot: DrawingObject[]): boolean {
+    return snapshot.length !== strokeHistory.length || snapshot.some((stroke, i) => stroke !== strokeHistory[i]);
+}
+
+// Replace the stroke list with an edited copy as a single undoable command
+function editStrokes(label: string, after: DrawingObject[]) {
+    editHistory.execute(createEditCommand(() => strokeHistory, label, strokeHistory.slice(), after));
+}
+
+// Add a finished stroke or shape to the drawing
+function commitStroke(stroke: DrawingObject) {
+    const label = stroke.kind === 'stroke' ? 'Draw'
+        : stroke.kind === 'text' ? 'Add text'
+        : stroke.kind === 'fill' ? 'Fill'
+        : 'Draw shape';
+    editStrokes(label, [...strokeHistory, stroke]);
+}
+
+// Paint bucket: fill the area enclosed by the ink of visible layers around a screen
+// position. Only the part of the drawing in view is considered, so the area has to
+// be closed within the view.
+function fillAt(screenPos: Point) {
+    if (!isLayerEditable(activeLayerId)) return;
+    const canvasPos = screenToCanvas(screenPos);
+    const area = getViewBounds();
+    const inView = getStrokeIndex().query(area);
+    const objects = getVisibleLayerContents(layers, strokeHistory.filter(obj => inView.has(obj)))
+        .flatMap(content => content.strokes);
+    const grid = getFillGrid(area, viewTransform.scale);
+    const outlines = findFillOutlines(rasterizeInk(objects, grid), grid, canvasPos, viewTransform.scale);
+    if (!outlines || outlines.length === 0) {
+        window.alert('Tap inside an area enclosed by lines to fill it.');
+        return;
     }
+    commitStroke(createFillObject(createId(), activeLayerId, colorPicker.getColor(), outlines));
 }
 
-// Update undo button state
-function updateUndoButton() {
-    undoBtn.disabled = strokeHistory.length === 0;
+// Commit a stroke or shape with its symmetric copies, as one undoable step
+function commitWithSymmetry(obj: Stroke | Shape) {
+    if (symmetryMatrices.length === 0) {
+        commitStroke(obj);
+        return;
+    }
+    const copies = symmetryMatrices.map(m => ({ ...transformObject(obj, m), id: createId() }));
+    editStrokes(obj.kind === 'stroke' ? 'Draw with symmetry' : 'Draw shapes with symmetry', [...strokeHistory, obj, ...copies]);
+}
+
+// Update undo/redo button state
+function updateHistoryButtons() {
+    undoBtn.disabled = !editHistory.canUndo();
+    redoBtn.disabled = !editHistory.canRedo();
 }
 
-// Undo last stroke
+// Undo/redo are ignored mid-stroke (or mid-drag) so the in-progress edit isn't orphaned
 function undo() {
-    if (strokeHistory.length > 0) {
-        strokeHistory.pop();
-        redraw();
-        updateUndoButton();
+    if (!isDrawing && !selectionDrag) {
+        editHistory.undo();
     }
 }
 
-// Clear canvas
-function clearCanvas() {
-    strokeHistory = [];
+function redo() {
+    if (!isDrawing && !selectionDrag) {
+        editHistory.redo();
+    }
+}
+
+// Join a room on a relay server, sharing the open drawing with everyone in it
+function joinSession(url: string, name: string) {
+    leaveSession();
+    try {
+        collab = createCollabSession({
+            url,
+            name,
+            strokes: strokeHistory,
+            layers,
+            onChange: mergeRemoteChanges,
+            onPeersChange: () => {
+                collabPanel.refresh();
+                redraw();
+            },
+            onStatusChange: () => collabPanel.refresh()
+        });
+    } catch (err) {
+        // The WebSocket constructor rejects addresses it can't connect to
+        console.error('Could not join the session', err);
+        window.alert(`Could not connect to ${url}.`);
+    }
+    collabPanel.refresh();
+}
+
+function leaveSession() {
+    if (!collab) return;
+    const session = collab;
+    collab = null;
+    session.leave();
+    collabPanel.refresh();
+    redraw();
+}
+
+// Send local edits to peers and adopt the merged drawing order
+function shareLocalChanges() {
+    if (!collab) return;
+    collab.commit(strokeHistory, layers);
+    strokeHistory = collab.getStrokes();
+    layers = collab.getLayers();
+}
+
+// Take in peers' edits. Mid-gesture they wait, as the gesture's undo step is a diff
+// against the drawing when it started and would otherwise swallow them.
+function mergeRemoteChanges() {
+    if (!collab) return;
+    if (isDrawing || selectionDrag || opacityEditStart || backgroundEditStart) {
+        if (!remoteMergePending) {
+            remoteMergePending = true;
+            setTimeout(() => {
+                remoteMergePending = false;
+                mergeRemoteChanges();
+            }, 100);
+        }
+        return;
+    }
+    strokeHistory = collab.getStrokes();
+    layers = collab.getLayers();
+    syncActiveLayer();
+    syncSelection();
+    layersPanel.refresh();
+    imageMenu.refresh();
+    redraw();
+    scheduleAutosave();
+}
+
+// Tell peers where the cursor is and what is being drawn
+function updatePresence() {
+    if (!collab) return;
+    const cursorPos = getCursorPos();
+    const isEraser = toolPicker.getTool() === 'eraser' || toolPicker.getTool() === 'strokeEraser';
+    collab.setPresence({
+        cursor: cursorPos ? screenToCanvas(cursorPos) : null,
+        color: isEraser || isSelectTool() ? '#808080' : colorPicker.getColor(),
+        size: getIndicatorSize() / viewTransform.scale,
+        live: currentStroke ?? currentShape
+    });
+}
+
+// Abandon any gesture in progress
+function resetGestureState() {
+    stopViewAnimation();
+    if (editingText) {
+        textEditor.cancel();
+    }
+    // Roll back a partially applied erase or selection drag
+    if (eraseStart) {
+        strokeHistory = eraseStart;
+        eraseStart = null;
+        lastErasePos = null;
+    }
+    if (selectionDrag) {
+        strokeHistory = selectionDrag.before;
+        selectionDrag = null;
+    }
+    selectionPath = null;
+    clearSelection();
     primaryPointerId = null;
     secondaryPointerId = null;
     primaryPos = null;
     secondaryPos = null;
+    panStart = null;
+    transformStart = null;
+    sizeGestureCandidate = null;
+    sizeGestureStart = null;
     currentStroke = null;
+    currentShape = null;
+    symmetryCopies = [];
+    shapeStart = null;
     isDrawing = false;
     gestureMode = 'none';
     if (gestureTimer !== null) {
         clearTimeout(gestureTimer);
         gestureTimer = null;
     }
+}
+
+// Clear canvas (undoable)
+function clearCanvas() {
+    resetGestureState();
     // Reset view transform
     viewTransform = { scale: 1, rotation: 0, panX: 0, panY: 0 };
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    updateUndoButton();
+    // The background image is a reference, not part of the drawing, so it stays
+    const kept = strokeHistory.filter(isBackgroundImage);
+    if (kept.length < strokeHistory.length) {
+        editStrokes('Clear', kept);
+    } else {
+        redraw();
+        scheduleAutosave();
+    }
+}
+
+// Snapshot the open drawing for storage
+function getCurrentDocumentSnapshot(): StoredDocument | null {
+    if (!currentDocument) return null;
+    return {
+        ...currentDocument,
+        updatedAt: Date.now(),
+        layers,
+        strokes: strokeHistory,
+        viewTransform: { ...viewTransform }
+    };
+}
+
+// Save the open drawing shortly after the last change
+function scheduleAutosave() {
+    if (autosaveTimer !== null) {
+        clearTimeout(autosaveTimer);
+    }
+    autosaveTimer = window.setTimeout(() => {
+        autosaveTimer = null;
+        runDocumentTask(saveCurrentDocument());
+    }, AUTOSAVE_DELAY);
+}
+
+// Save immediately, cancelling any pending autosave
+async function saveCurrentDocument() {
+    if (autosaveTimer !== null) {
+        clearTimeout(autosaveTimer);
+        autosaveTimer = null;
+    }
+    const snapshot = getCurrentDocumentSnapshot();
+    if (snapshot) {
+        await saveDocument(snapshot);
+    }
+}
+
+// Report storage failures without interrupting drawing
+function runDocumentTask(task: Promise<void>) {
+    task.catch(err => {
+        console.error('Document storage failed', err);
+    });
+}
+
+// Replace the canvas contents with a stored drawing
+function showDocument(doc: StoredDocument) {
+    resetGestureState();
+    currentDocument = { id: doc.id, name: doc.name, createdAt: doc.createdAt };
+    strokeHistory = doc.strokes;
+    layers = doc.layers;
+    activeLayerId = layers[layers.length - 1].id;
+    viewTransform = { ...doc.viewTransform };
+    setCurrentDocumentId(doc.id);
+    documentLibrary.setCurrent(doc.id, doc.name);
+    // Undo never crosses drawings, and neither does a shared session
+    leaveSession();
+    editHistory.clear();
+    layersPanel.refresh();
+    updateHistoryButtons();
+    redraw();
+}
+
+// Build an empty drawing named after the number of existing drawings
+async function createEmptyDocument(): Promise<StoredDocument> {
+    const existing = await listDocuments();
+    const now = Date.now();
+    return {
+        id: createId(),
+        name: `Drawing ${existing.length + 1}`,
+        createdAt: now,
+        updatedAt: now,
+        layers: [createLayer(createId(), 'Layer 1')],
+        strokes: [],
+        viewTransform: { scale: 1, rotation: 0, panX: 0, panY: 0 }
+    };
+}
+
+async function createNewDocument() {
+    await saveCurrentDocument();
+    const doc = await createEmptyDocument();
+    await saveDocument(doc);
+    showDocument(doc);
+}
+
+async function openDocumentById(id: string) {
+    await saveCurrentDocument();
+    const doc = await loadDocument(id);
+    if (doc) {
+        showDocument(doc);
+    }
+}
+
+async function renameDocumentById(id: string, name: string) {
+    await renameDocument(id, name);
+    if (currentDocument && currentDocument.id === id) {
+        currentDocument.name = name;
+        documentLibrary.setCurrent(id, name);
+    }
+}
+
+async function duplicateDocumentById(id: string) {
+    await saveCurrentDocument();
+    const source = await loadDocument(id);
+    if (!source) return;
+    const now = Date.now();
+    const copy: StoredDocument = {
+        ...source,
+        id: createId(),
+        name: `${source.name} copy`,
+        createdAt: now,
+        updatedAt: now
+    };
+    await saveDocument(copy);
+    showDocument(copy);
+}
+
+async function deleteDocumentById(id: string) {
+    const isOpen = currentDocument !== null && currentDocument.id === id;
+    if (isOpen) {
+        // Don't let a pending autosave (or a flush while the delete is in flight)
+        // resurrect the deleted drawing
+        if (autosaveTimer !== null) {
+            clearTimeout(autosaveTimer);
+            autosaveTimer = null;
+        }
+        currentDocument = null;
+    }
+    await deleteDocument(id);
+    if (isOpen) {
+        const remaining = await listDocuments();
+        if (remaining.length > 0) {
+            await openDocumentById(remaining[0].id);
+        } else {
+            await createNewDocument();
+        }
+    }
+}
+
+// Load a .webdraw.json file into the open drawing, either replacing or adding to its strokes
+async function importDocumentFile(file: File, mode: ImportMode) {
+    let imported;
+    try {
+        imported = parseDocument(await file.text());
+    } catch (err) {
+        if (err instanceof DocumentFormatError) {
+            window.alert(`Could not import "${file.name}": ${err.message}`);
+            return;
+        }
+        throw err;
+    }
+
+    if (mode === 'replace') {
+        if (strokeHistory.length > 0 && !window.confirm('Replace the current drawing with the imported file?')) {
+            return;
+        }
+        resetGestureState();
+        viewTransform = { ...imported.viewTransform };
+        editHistory.execute(createCompoundCommand('Import', [
+            createEditCommand(() => strokeHistory, 'Import', strokeHistory.slice(), imported.strokes),
+            createEditCommand(() => layers, 'Import', layers.slice(), imported.layers)
+        ]));
+    } else {
+        // Imported layers go on top, with fresh ids so they can't collide with existing ones
+        const ids = new Map(imported.layers.map(layer => [layer.id, createId()]));
+        const addedLayers = imported.layers.map(layer => ({ ...layer, id: ids.get(layer.id)! }));
+        const addedStrokes = imported.strokes.map(stroke => ({ ...stroke, id: createId(), layerId: ids.get(stroke.layerId)! }));
+        editHistory.execute(createCompoundCommand('Import', [
+            createEditCommand(() => strokeHistory, 'Import', strokeHistory.slice(), strokeHistory.concat(addedStrokes)),
+            createEditCommand(() => layers, 'Import', layers.slice(), layers.concat(addedLayers))
+        ]));
+    }
+}
+
+// Restore the last open drawing, or start a new one
+async function restoreLastDocument() {
+    const lastId = getCurrentDocumentId();
+    let doc: StoredDocument | null = null;
+    try {
+        doc = lastId ? await loadDocument(lastId) : null;
+    } catch (err) {
+        // Start a fresh drawing rather than leaving the session without one (and unsaved)
+        console.error('Could not open the last drawing', err);
+        window.alert('Your last drawing could not be opened, so a new drawing was started.');
+    }
+    if (doc) {
+        showDocument(doc);
+    } else {
+        await createNewDocument();
+    }
 }
 
 // Event listeners
@@ -501,18 +2497,211 @@ canvas.addEventListener('pointermove', handlePointerMove);
 canvas.addEventListener('pointerup', handlePointerUp);
 canvas.addEventListener('pointercancel', handlePointerUp);
 canvas.addEventListener('pointerleave', handlePointerUp);
+canvas.addEventListener('pointerup', handleTapUp);
+canvas.addEventListener('pointercancel', handleTapUp);
 
 // Prevent default touch behaviors
 canvas.addEventListener('touchstart', e => e.preventDefault(), { passive: false });
 canvas.addEventListener('touchmove', e => e.preventDefault(), { passive: false });
 
+// Mouse wheel zooms around the cursor; on a trackpad two-finger scrolling pans and
+// pinching (reported as ctrl+wheel) zooms
+canvas.addEventListener('wheel', (e) => {
+    e.preventDefault();
+    if (isDrawing || selectionDrag) return;
+    const unit = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? viewHeight : 1;
+    const deltaX = e.deltaX * unit;
+    const deltaY = e.deltaY * unit;
+    const pos = getPointerPos(e);
+    // Mouse wheels scroll in whole lines or large integer steps with no sideways movement
+    const isMouseWheel = e.deltaMode !== WheelEvent.DOM_DELTA_PIXEL ||
+        (deltaX === 0 && Number.isInteger(deltaY) && Math.abs(deltaY) >= 40);
+    if (e.ctrlKey) {
+        zoomAt(pos, Math.exp(-deltaY * PINCH_ZOOM_SPEED));
+    } else if (isMouseWheel && !e.shiftKey) {
+        zoomAt(pos, Math.exp(-deltaY * WHEEL_ZOOM_SPEED));
+    } else {
+        stopViewAnimation();
+        // Shift turns a mouse wheel into sideways scrolling
+        const dx = e.shiftKey && deltaX === 0 ? deltaY : deltaX;
+        const dy = e.shiftKey && deltaX === 0 ? 0 : deltaY;
+        setView({ ...viewTransform, panX: viewTransform.panX - dx, panY: viewTransform.panY - dy }, false);
+    }
+}, { passive: false });
+
+// Safari reports trackpad pinch and rotate as gesture events rather than ctrl+wheel
+interface GestureEvent extends UIEvent {
+    scale: number;
+    rotation: number;  // in degrees
+    clientX: number;
+    clientY: number;
+}
+canvas.addEventListener('gesturestart', (e) => {
+    e.preventDefault();
+    if (isDrawing || selectionDrag) return;
+    stopViewAnimation();
+    trackpadGesture = { scale: viewTransform.scale, rotation: viewTransform.rotation };
+});
+canvas.addEventListener('gesturechange', (e) => {
+    e.preventDefault();
+    if (!trackpadGesture) return;
+    const gesture = e as GestureEvent;
+    const pos = getPointerPos(gesture);
+    const scale = clampScale(trackpadGesture.scale * gesture.scale);
+    const rotation = trackpadGesture.rotation + gesture.rotation * Math.PI / 180;
+    setView(getViewAt(screenToCanvas(pos), pos, scale, rotation, getViewCenter()), false);
+});
+canvas.addEventListener('gestureend', (e) => {
+    e.preventDefault();
+    trackpadGesture = null;
+});
+
 // UI controls
 undoBtn.addEventListener('click', undo);
+redoBtn.addEventListener('click', redo);
+deleteSelectionBtn.addEventListener('click', deleteSelection);
+duplicateSelectionBtn.addEventListener('click', duplicateSelection);
+backgroundSelectionBtn.addEventListener('click', useSelectionAsBackground);
+deselectBtn.addEventListener('click', () => {
+    clearSelection();
+    redraw();
+});
 clearBtn.addEventListener('click', clearCanvas);
+resetViewBtn.addEventListener('click', resetView);
+fitContentBtn.addEventListener('click', fitContent);
+resetRotationBtn.addEventListener('click', resetRotation);
+
+// Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo
+document.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+    }
+    if (selection.length > 0 && (e.key === 'Delete' || e.key === 'Backspace')) {
+        e.preventDefault();
+        deleteSelection();
+        return;
+    }
+    if (e.key === 'Escape') {
+        if (eyedropperActive || placingSymmetryCenter) {
+            eyedropperActive = false;
+            placingSymmetryCenter = false;
+            updateCanvasCursor();
+            return;
+        }
+        clearSelection();
+        redraw();
+        return;
+    }
+    if (!e.ctrlKey && !e.metaKey && !e.altKey && handleNavigationKey(e)) {
+        e.preventDefault();
+        return;
+    }
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+    }
+});
 
-// Handle window resize
+// Space (hold and drag) pans, R / Shift+R rotate, + and - zoom around the middle of the screen
+function handleNavigationKey(e: KeyboardEvent): boolean {
+    switch (e.key) {
+        case ' ':
+            if (!spaceHeld) {
+                spaceHeld = true;
+                updateCanvasCursor();
+            }
+            return true;
+        case 'r':
+        case 'R':
+            if (!e.repeat) rotateViewStep(e.shiftKey ? -1 : 1);
+            return true;
+        case '+':
+        case '=':
+            zoomAt(getViewCenter(), KEY_ZOOM_STEP, true);
+            return true;
+        case '-':
+        case '_':
+            zoomAt(getViewCenter(), 1 / KEY_ZOOM_STEP, true);
+            return true;
+    }
+    return false;
+}
+document.addEventListener('keyup', (e) => {
+    if (e.key === ' ' && spaceHeld) {
+        spaceHeld = false;
+        updateCanvasCursor();
+    }
+});
+window.addEventListener('blur', () => {
+    spaceHeld = false;
+    updateCanvasCursor();
+});
+
+// Images can be dropped onto the canvas or pasted from the clipboard
+canvas.addEventListener('dragover', (e) => {
+    if (e.dataTransfer?.types.includes('Files')) {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    }
+});
+canvas.addEventListener('drop', (e) => {
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    if (files.length === 0) return;
+    e.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    runDocumentTask(importImages(files, { x: e.clientX - rect.left, y: e.clientY - rect.top }));
+});
+document.addEventListener('paste', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+    }
+    const files = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    e.preventDefault();
+    runDocumentTask(importImages(files, { x: viewWidth / 2, y: viewHeight / 2 }));
+});
+
+// Holding Shift constrains shapes; reshape the one in progress right away
+function setShiftHeld(held: boolean) {
+    if (held === shiftHeld) return;
+    shiftHeld = held;
+    if (currentShape && primaryPos) {
+        updateShape(getToolPos(primaryPos));
+        redraw();
+    }
+}
+document.addEventListener('keydown', e => setShiftHeld(e.shiftKey));
+document.addEventListener('keyup', e => setShiftHeld(e.shiftKey));
+window.addEventListener('blur', () => setShiftHeld(false));
+
+// Handle window resize, and the toolbar gaining or losing its scrollbar
 window.addEventListener('resize', resizeCanvas);
+new ResizeObserver(resizeCanvas).observe(toolbarEl);
+
+// Flush pending changes when the page is hidden or unloaded (e.g. mobile tab eviction)
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+        runDocumentTask(saveCurrentDocument());
+    }
+});
+window.addEventListener('pagehide', () => {
+    runDocumentTask(saveCurrentDocument());
+});
 
 // Initialize
+updateCanvasCursor();
 resizeCanvas();
-updateUndoButton();
+updateHistoryButtons();
+runDocumentTask(restoreLastDocument().finally(() => {
+    documentRestored = true;
+    updateCanvasCursor();
+}));
+
@@ -0,0 +1,299 @@
+import { DocumentFormatError, parseSharedLayer, parseSharedObject } from './documentFormat';
+import { createId } from './ids';
+import { createSyncState, type LayerEntry, type ObjectEntry, type Stamp, type SyncPatch } from './sync';
+import type { DrawingObject, Layer, Point } from './types';
+
+// Live collaboration over a WebSocket relay (see server/relay.mjs). The relay passes every
+// message on to the other peers in the same room; peers exchange their full state when
+// someone joins, then patches for each edit and a throttled stream of presence updates.
+//
+// Messages (JSON):
+//   { type: 'hello', peer, name }              a peer joined (also sent on reconnect)
+//   { type: 'state', peer, name, patch }       full state, sent on joining and in reply to hello
+//   { type: 'patch', peer, patch }             edits
+//   { type: 'presence', peer, presence }       cursor and in-progress object
+//
+// A presence's `live` is { object, from }: the object being drawn with its points from
+// index `from` on. A stroke only grows while it is drawn, so after the first update
+// (from 0) only its new points are sent; the finished object arrives in a patch.
+//   { type: 'leave', peer }                    a peer left (sent by the relay if it disconnects)
+
+const PRESENCE_INTERVAL = 50;   // ms between presence updates
+const RECONNECT_DELAY = 2000;   // ms before reconnecting after the connection drops
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+// What a peer is doing right now; positions and sizes are in canvas units
+export interface Presence {
+    cursor: Point | null;
+    color: string;
+    size: number;
+    live: DrawingObject | null;   // stroke or shape being drawn
+}
+
+export interface Peer {
+    id: string;
+    name: string;
+    presence: Presence | null;
+}
+
+interface CollabOptions {
+    url: string;
+    name: string;
+    strokes: DrawingObject[];   // the drawing as it is when joining; it is merged with the room's
+    layers: Layer[];
+    onChange: () => void;       // peers' edits were merged; read getStrokes() and getLayers()
+    onPeersChange: () => void;  // peers joined, left or moved
+    onStatusChange: (status: CollabStatus) => void;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseStamp(raw: unknown): Stamp {
+    if (!isObject(raw) || !Number.isInteger(raw.clock) || typeof raw.peer !== 'string') {
+        throw new DocumentFormatError('stamp must have an integer clock and a peer.');
+    }
+    return { clock: raw.clock as number, peer: raw.peer };
+}
+
+function parseEntry(raw: unknown): ObjectEntry {
+    if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.order !== 'number' || !Number.isFinite(raw.order)) {
+        throw new DocumentFormatError('entry must have an id and an order.');
+    }
+    const object = raw.object === null ? null : parseSharedObject(raw.object);
+    if (object && object.id !== raw.id) {
+        throw new DocumentFormatError('entry.object.id does not match entry.id.');
+    }
+    return { id: raw.id, object, stamp: parseStamp(raw.stamp), order: raw.order };
+}
+
+function parseLayerEntry(raw: unknown): LayerEntry {
+    if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.order !== 'number' || !Number.isFinite(raw.order)) {
+        throw new DocumentFormatError('layer entry must have an id and an order.');
+    }
+    const layer = raw.layer === null ? null : parseSharedLayer(raw.layer);
+    if (layer && layer.id !== raw.id) {
+        throw new DocumentFormatError('entry.layer.id does not match entry.id.');
+    }
+    return { id: raw.id, layer, stamp: parseStamp(raw.stamp), order: raw.order };
+}
+
+// Validate a patch from a peer, as it ends up in the drawing
+function parsePatch(raw: unknown): SyncPatch {
+    if (!isObject(raw) || !Array.isArray(raw.objects) || !Array.isArray(raw.layers)) {
+        throw new DocumentFormatError('patch.objects and patch.layers must be arrays.');
+    }
+    return { objects: raw.objects.map(parseEntry), layers: raw.layers.map(parseLayerEntry) };
+}
+
+// The in-progress object from a presence update, extending `previous` if the update
+// continues it
+function parseLive(raw: unknown, previous: DrawingObject | null): DrawingObject | null {
+    if (!isObject(raw) || !isObject(raw.object) || !Number.isInteger(raw.from) || (raw.from as number) < 0) {
+        throw new DocumentFormatError('presence.live must have an object and a point index.');
+    }
+    if (raw.from === 0) return parseSharedObject(raw.object);
+    // A continuation of a stroke we didn't see start (or missed a part of) is skipped
+    if (!previous || previous.id !== raw.object.id || previous.points.length !== raw.from) return previous;
+    const points = Array.isArray(raw.object.points) ? raw.object.points : [];
+    return parseSharedObject({ ...raw.object, points: [...previous.points, ...points] });
+}
+
+function parsePresence(raw: unknown, previous: Presence | null): Presence {
+    if (!isObject(raw) || typeof raw.color !== 'string' || typeof raw.size !== 'number') {
+        throw new DocumentFormatError('presence must have a color and a size.');
+    }
+    const cursor = isObject(raw.cursor) && typeof raw.cursor.x === 'number' && typeof raw.cursor.y === 'number'
+        ? { x: raw.cursor.x, y: raw.cursor.y }
+        : null;
+    const live = raw.live ? parseLive(raw.live, previous?.live ?? null) : null;
+    return { cursor, color: raw.color, size: raw.size, live };
+}
+
+export function createCollabSession(options: CollabOptions) {
+    const peerId = createId();
+    const sync = createSyncState(peerId);
+    const peers = new Map<string, Peer>();
+    let socket: WebSocket | null = null;
+    let status: CollabStatus = 'connecting';
+    let closed = false;
+    let reconnectTimer: number | null = null;
+
+    let presence: Presence | null = null;
+    let sentPresence = '';
+    // The in-progress object as far as peers have it
+    let sentLive: { id: string; count: number } | null = null;
+    let presenceTimer: number | null = null;
+    let lastPresenceTime = 0;
+
+    sync.commit(options.strokes, options.layers);
+
+    function setStatus(next: CollabStatus) {
+        status = next;
+        options.onStatusChange(status);
+    }
+
+    function send(message: Record<string, unknown>) {
+        if (socket && socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ ...message, peer: peerId }));
+        }
+    }
+
+    function updatePeer(id: string, changes: Partial<Peer>) {
+        const peer = peers.get(id) ?? { id, name: 'Guest', presence: null };
+        peers.set(id, { ...peer, ...changes });
+        options.onPeersChange();
+    }
+
+    function handleMessage(data: unknown) {
+        if (typeof data !== 'string') return;
+        let message: Record<string, unknown>;
+        try {
+            const parsed: unknown = JSON.parse(data);
+            if (!isObject(parsed) || typeof parsed.peer !== 'string' || parsed.peer === peerId) return;
+            message = parsed;
+        } catch {
+            return;
+        }
+        const from = message.peer as string;
+        const name = typeof message.name === 'string' && message.name ? message.name : undefined;
+
+        try {
+            switch (message.type) {
+                case 'hello':
+                    updatePeer(from, name ? { name } : {});
+                    // Bring the newcomer up to date and show where we are
+                    send({ type: 'state', name: options.name, patch: sync.getSnapshot() });
+                    resendPresence();
+                    break;
+                case 'state':
+                case 'patch':
+                    if (message.type === 'state') {
+                        updatePeer(from, name ? { name } : {});
+                    }
+                    if (sync.merge(parsePatch(message.patch))) {
+                        options.onChange();
+                    }
+                    break;
+                case 'presence':
+                    updatePeer(from, { presence: parsePresence(message.presence, peers.get(from)?.presence ?? null) });
+                    break;
+                case 'leave':
+                    if (peers.delete(from)) {
+                        options.onPeersChange();
+                    }
+                    break;
+            }
+        } catch (err) {
+            if (!(err instanceof DocumentFormatError)) throw err;
+            console.warn(`Ignored an invalid message from a collaborator: ${err.message}`);
+        }
+    }
+
+    function connect() {
+        setStatus('connecting');
+        const ws = new WebSocket(options.url);
+        socket = ws;
+        ws.addEventListener('open', () => {
+            setStatus('connected');
+            send({ type: 'hello', name: options.name });
+            send({ type: 'state', name: options.name, patch: sync.getSnapshot() });
+            resendPresence();
+        });
+        ws.addEventListener('message', e => handleMessage(e.data));
+        ws.addEventListener('close', () => {
+            if (socket !== ws) return;
+            socket = null;
+            // Peers are rediscovered once the connection is back
+            peers.clear();
+            options.onPeersChange();
+            setStatus('disconnected');
+            if (!closed) {
+                reconnectTimer = window.setTimeout(() => {
+                    reconnectTimer = null;
+                    connect();
+                }, RECONNECT_DELAY);
+            }
+        });
+    }
+
+    // Send the latest presence, at most once per PRESENCE_INTERVAL
+    function sendPresence() {
+        if (presenceTimer !== null) return;
+        const wait = lastPresenceTime + PRESENCE_INTERVAL - performance.now();
+        if (wait > 0) {
+            presenceTimer = window.setTimeout(() => {
+                presenceTimer = null;
+                sendPresence();
+            }, wait);
+            return;
+        }
+        if (!presence) return;
+        const { live, ...rest } = presence;
+        const grows = live !== null && live.kind === 'stroke' && sentLive !== null &&
+            live.id === sentLive.id && live.points.length >= sentLive.count;
+        const from = grows ? sentLive!.count : 0;
+        const update = {
+            ...rest,
+            live: live ? { object: { ...live, points: live.points.slice(from) }, from } : null
+        };
+        const json = JSON.stringify(update);
+        if (json === sentPresence) return;
+        sentPresence = json;
+        sentLive = live ? { id: live.id, count: live.points.length } : null;
+        lastPresenceTime = performance.now();
+        send({ type: 'presence', presence: update });
+    }
+
+    // Send the whole presence again, for peers that (re)joined
+    function resendPresence() {
+        sentPresence = '';
+        sentLive = null;
+        sendPresence();
+    }
+
+    // Share local edits (the whole drawing; only what changed is sent)
+    function commit(strokes: DrawingObject[], layers: Layer[]) {
+        const patch = sync.commit(strokes, layers);
+        if (patch) {
+            send({ type: 'patch', patch });
+        }
+    }
+
+    function setPresence(next: Presence) {
+        presence = next;
+        sendPresence();
+    }
+
+    function leave() {
+        if (closed) return;
+        send({ type: 'leave' });
+        closed = true;
+        if (reconnectTimer !== null) {
+            clearTimeout(reconnectTimer);
+        }
+        if (presenceTimer !== null) {
+            clearTimeout(presenceTimer);
+        }
+        socket?.close();
+        socket = null;
+        peers.clear();
+        setStatus('disconnected');
+    }
+
+    connect();
+
+    return {
+        commit,
+        getStrokes: sync.getStrokes,
+        getLayers: sync.getLayers,
+        setPresence,
+        getPeers: () => [...peers.values()],
+        getStatus: () => status,
+        leave
+    };
+}
+
+export type CollabSession = ReturnType<typeof createCollabSession>;
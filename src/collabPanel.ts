@@ -0,0 +1,266 @@
+import type { CollabStatus, Peer } from './collab';
+
+const COLLAB_KEY = 'webdraw.collab';
+
+interface CollabPanelOptions {
+    getStatus: () => CollabStatus | null;   // null when not in a session
+    getPeers: () => Peer[];
+    onJoin: (url: string, name: string) => void;
+    onLeave: () => void;
+}
+
+interface CollabDetails {
+    server: string;
+    room: string;
+    name: string;
+}
+
+// Whether WebSocket will accept the address
+function isRelayAddress(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'ws:' || url.protocol === 'wss:';
+    } catch {
+        return false;
+    }
+}
+
+// Last used server, room and name
+function loadDetails(): CollabDetails {
+    const details: CollabDetails = {
+        server: `ws://${location.hostname || 'localhost'}:8787`,
+        room: 'drawing',
+        name: ''
+    };
+    try {
+        const saved: unknown = JSON.parse(localStorage.getItem(COLLAB_KEY) ?? '{}');
+        if (typeof saved === 'object' && saved !== null) {
+            const { server, room, name } = saved as Record<string, unknown>;
+            if (typeof server === 'string' && server) details.server = server;
+            if (typeof room === 'string' && room) details.room = room;
+            if (typeof name === 'string') details.name = name;
+        }
+    } catch {
+        // Unreadable details fall back to the defaults
+    }
+    return details;
+}
+
+function saveDetails(details: CollabDetails) {
+    try {
+        localStorage.setItem(COLLAB_KEY, JSON.stringify(details));
+    } catch {
+        // Storage may be unavailable (private mode); the details last for this visit
+    }
+}
+
+export function createCollabPanel(
+    triggerElement: HTMLElement,
+    options: CollabPanelOptions
+) {
+    let popup: HTMLElement | null = null;
+    let shown = '';  // session state the popup was built for
+
+    // Show the session state on the trigger
+    function updateTrigger() {
+        const status = options.getStatus();
+        const count = options.getPeers().length;
+        triggerElement.textContent = status === null ? 'Share'
+            : status === 'connected' ? `Live (${count + 1})`
+            : 'Reconnecting…';
+    }
+
+    function createField(label: string, value: string, placeholder: string) {
+        const row = document.createElement('label');
+        row.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+            color: #aaa;
+            font-size: 12px;
+        `;
+        row.append(label);
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.value = value;
+        input.placeholder = placeholder;
+        input.style.cssText = `
+            padding: 4px 6px;
+            font-size: 13px;
+            background: #333;
+            color: #fff;
+            border: 1px solid #555;
+            border-radius: 4px;
+        `;
+        row.appendChild(input);
+        return { row, input };
+    }
+
+    function createButton(label: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 8px 4px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function getShownState(): string {
+        return JSON.stringify([options.getStatus(), options.getPeers().map(peer => [peer.id, peer.name])]);
+    }
+
+    // (Re)build the popup contents from the session state
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+        const status = options.getStatus();
+        shown = getShownState();
+
+        if (status === null) {
+            const details = loadDetails();
+            const server = createField('Relay server', details.server, 'ws://localhost:8787');
+            const room = createField('Room', details.room, 'drawing');
+            const name = createField('Your name', details.name, 'Guest');
+            popup.appendChild(server.row);
+            popup.appendChild(room.row);
+            popup.appendChild(name.row);
+
+            const note = document.createElement('div');
+            note.textContent = 'Your drawing is merged with what is already in the room.';
+            note.style.cssText = `
+                color: #aaa;
+                font-size: 12px;
+            `;
+            popup.appendChild(note);
+
+            popup.appendChild(createButton('Join', () => {
+                const joined = {
+                    server: server.input.value.trim().replace(/\/+$/, ''),
+                    room: room.input.value.trim() || 'drawing',
+                    name: name.input.value.trim()
+                };
+                if (!isRelayAddress(joined.server)) {
+                    window.alert('The relay server address must be a URL starting with ws:// or wss://, like ws://localhost:8787.');
+                    return;
+                }
+                saveDetails(joined);
+                options.onJoin(`${joined.server}/${encodeURIComponent(joined.room)}`, joined.name || 'Guest');
+                renderPopup();
+            }));
+            return;
+        }
+
+        const state = document.createElement('div');
+        state.textContent = status === 'connected' ? 'Connected' : 'Connecting to the relay server…';
+        state.style.cssText = `
+            color: ${status === 'connected' ? '#8c8' : '#cc8'};
+            font-size: 13px;
+        `;
+        popup.appendChild(state);
+
+        const list = document.createElement('div');
+        list.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+            color: #fff;
+            font-size: 13px;
+        `;
+        const peers = options.getPeers();
+        list.append(peers.length === 0 ? 'Nobody else is here yet.' : 'Also here:');
+        peers.forEach(peer => {
+            const item = document.createElement('div');
+            item.textContent = peer.name;
+            item.style.paddingLeft = '8px';
+            list.appendChild(item);
+        });
+        popup.appendChild(list);
+
+        popup.appendChild(createButton('Leave', () => {
+            options.onLeave();
+            renderPopup();
+        }));
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            width: 240px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+        div.addEventListener('click', e => e.stopPropagation());
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${Math.max(4, Math.min(rect.left, window.innerWidth - popup.offsetWidth - 4))}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        renderPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+
+    updateTrigger();
+
+    return {
+        // Show changes to the session or its peers
+        refresh: () => {
+            updateTrigger();
+            // Peers moving around don't change the popup; rebuilding it could swallow a click
+            if (getShownState() !== shown) {
+                renderPopup();
+            }
+        }
+    };
+}
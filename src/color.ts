@@ -0,0 +1,77 @@
+// Colors are stored as '#RRGGBB', or '#RRGGBBAA' when translucent
+
+export interface Rgba {
+    r: number;  // 0..255
+    g: number;
+    b: number;
+    a: number;  // 0..1
+}
+
+export interface Hsv {
+    h: number;  // 0..360
+    s: number;  // 0..1
+    v: number;  // 0..1
+}
+
+// Parse '#RGB', '#RRGGBB' or '#RRGGBBAA' (with or without '#'); null if it isn't one
+export function parseColor(value: string): Rgba | null {
+    let hex = value.trim().replace(/^#/, '');
+    if (/^[0-9a-f]{3}$/i.test(hex)) {
+        hex = hex.split('').map(c => c + c).join('');
+    }
+    if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return null;
+    return {
+        r: parseInt(hex.slice(0, 2), 16),
+        g: parseInt(hex.slice(2, 4), 16),
+        b: parseInt(hex.slice(4, 6), 16),
+        a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1
+    };
+}
+
+function toHex(value: number): string {
+    return Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0').toUpperCase();
+}
+
+// Opaque colors drop the alpha digits, so they stay readable by older versions
+export function formatColor({ r, g, b, a }: Rgba): string {
+    const alpha = toHex(a * 255);
+    return `#${toHex(r)}${toHex(g)}${toHex(b)}${alpha === 'FF' ? '' : alpha}`;
+}
+
+// Alpha of a stored color (1 if it has none)
+export function getColorAlpha(color: string): number {
+    return parseColor(color)?.a ?? 1;
+}
+
+// The color without its alpha, as '#RRGGBB'
+export function getOpaqueColor(color: string): string {
+    const rgba = parseColor(color);
+    return rgba ? formatColor({ ...rgba, a: 1 }) : color;
+}
+
+export function rgbToHsv({ r, g, b }: Rgba): Hsv {
+    const red = r / 255;
+    const green = g / 255;
+    const blue = b / 255;
+    const max = Math.max(red, green, blue);
+    const delta = max - Math.min(red, green, blue);
+    let h = 0;
+    if (delta > 0) {
+        if (max === red) {
+            h = ((green - blue) / delta) % 6;
+        } else if (max === green) {
+            h = (blue - red) / delta + 2;
+        } else {
+            h = (red - green) / delta + 4;
+        }
+    }
+    return { h: (h * 60 + 360) % 360, s: max === 0 ? 0 : delta / max, v: max };
+}
+
+export function hsvToRgb({ h, s, v }: Hsv, a = 1): Rgba {
+    const channel = (n: number) => {
+        const k = (n + h / 60) % 6;
+        return (v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255;
+    };
+    return { r: channel(5), g: channel(3), b: channel(1), a };
+}
@@ -1,3 +1,5 @@
+import { formatColor, hsvToRgb, parseColor, rgbToHsv, type Hsv } from './color';
+
 const COLORS = [
     // Color circle - saturated colors
     '#FF0000', // Red
@@ -16,56 +18,487 @@ const COLORS = [
     '#000000', // Black
 ];
 
+const COLORS_KEY = 'webdraw.colors';
+const MAX_RECENT_COLORS = 8;
+const MAX_PALETTE_COLORS = 24;
+const PICKER_WIDTH = 216;
+const PICKER_HEIGHT = 120;
+
+interface Palette {
+    name: string;
+    colors: string[];
+}
+
+// Recent colors and the user's palettes, kept across visits
+interface ColorPreferences {
+    recent: string[];
+    palettes: Palette[];
+    activePalette: number;
+}
+
+function isColor(value: unknown): value is string {
+    return typeof value === 'string' && parseColor(value) !== null;
+}
+
+function loadPreferences(): ColorPreferences {
+    const defaults: ColorPreferences = { recent: [], palettes: [{ name: 'Default', colors: COLORS.slice() }], activePalette: 0 };
+    let saved: Record<string, unknown>;
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(COLORS_KEY) ?? '{}');
+        if (typeof parsed !== 'object' || parsed === null) return defaults;
+        saved = parsed as Record<string, unknown>;
+    } catch {
+        return defaults;
+    }
+
+    const recent = Array.isArray(saved.recent) ? saved.recent.filter(isColor).slice(0, MAX_RECENT_COLORS) : [];
+    const palettes = Array.isArray(saved.palettes)
+        ? saved.palettes.flatMap((p: unknown) => {
+            if (typeof p !== 'object' || p === null) return [];
+            const { name, colors } = p as Record<string, unknown>;
+            if (typeof name !== 'string' || !Array.isArray(colors)) return [];
+            return [{ name, colors: colors.filter(isColor).slice(0, MAX_PALETTE_COLORS) }];
+        })
+        : [];
+    if (palettes.length === 0) return { ...defaults, recent };
+    const active = typeof saved.activePalette === 'number' ? saved.activePalette : 0;
+    return { recent, palettes, activePalette: Math.min(Math.max(0, Math.floor(active)), palettes.length - 1) };
+}
+
+function savePreferences(preferences: ColorPreferences) {
+    try {
+        localStorage.setItem(COLORS_KEY, JSON.stringify(preferences));
+    } catch {
+        // Storage may be unavailable (private mode); the colors last for this visit
+    }
+}
+
+// Swatch fill that shows translucent colors over a checkerboard
+function getSwatchBackground(color: string): string {
+    return `linear-gradient(${color}, ${color}), repeating-conic-gradient(#808080 0 25%, #fff 0 50%) 0 0 / 8px 8px`;
+}
+
 export function createColorPicker(
     triggerElement: HTMLElement,
-    onChange: (color: string) => void
+    onChange: (color: string) => void,
+    onEyedropper: () => void  // pick the next color from a stroke on the canvas
 ) {
     let currentColor = COLORS[0];
+    let hsv: Hsv = rgbToHsv(parseColor(currentColor)!);  // kept apart so hue survives grays
+    let alpha = 1;
     let popup: HTMLElement | null = null;
+    let editingPalette = false;
+    const preferences = loadPreferences();
 
     // Style the trigger element to show current color
     function updateTrigger() {
-        triggerElement.style.backgroundColor = currentColor;
+        triggerElement.style.background = getSwatchBackground(currentColor);
         triggerElement.style.border = '2px solid #666';
         triggerElement.style.borderRadius = '4px';
         triggerElement.style.cursor = 'pointer';
     }
 
-    function createPopup() {
-        const div = document.createElement('div');
-        div.style.cssText = `
-            position: absolute;
-            background: #2a2a2a;
-            border: 1px solid #555;
-            border-radius: 8px;
-            padding: 8px;
+    function addRecentColor(color: string) {
+        preferences.recent = [color, ...preferences.recent.filter(c => c !== color)].slice(0, MAX_RECENT_COLORS);
+        savePreferences(preferences);
+    }
+
+    // Make `color` current. Only a final choice (not every step of a drag) is reported
+    // and remembered as recent.
+    function applyColor(color: string, final: boolean) {
+        currentColor = color;
+        updateTrigger();
+        if (final) {
+            addRecentColor(color);
+            onChange(color);
+        }
+    }
+
+    function chooseColor(color: string) {
+        const rgba = parseColor(color)!;
+        hsv = rgbToHsv(rgba);
+        alpha = rgba.a;
+        applyColor(formatColor(rgba), true);
+    }
+
+    function getHsvColor(): string {
+        return formatColor(hsvToRgb(hsv, alpha));
+    }
+
+    function createSwatch(color: string, selected: boolean) {
+        const swatch = document.createElement('div');
+        swatch.title = color;
+        swatch.style.cssText = `
+            height: 28px;
+            background: ${getSwatchBackground(color)};
+            border: 2px solid ${selected ? '#fff' : '#444'};
+            border-radius: 4px;
+            cursor: pointer;
+            box-sizing: border-box;
+        `;
+        return swatch;
+    }
+
+    function createSmallButton(label: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 4px 8px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function createLabel(text: string) {
+        const label = document.createElement('div');
+        label.textContent = text;
+        label.style.cssText = `
+            color: #aaa;
+            font-size: 12px;
+        `;
+        return label;
+    }
+
+    // Palette chooser, its swatches and (while editing) the buttons that change it
+    function createPaletteSection() {
+        const section = document.createElement('div');
+        section.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+        `;
+        const palette = preferences.palettes[preferences.activePalette];
+
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            gap: 6px;
+        `;
+        const select = document.createElement('select');
+        select.style.flex = '1';
+        preferences.palettes.forEach((p, i) => {
+            const option = document.createElement('option');
+            option.value = String(i);
+            option.textContent = p.name;
+            option.selected = i === preferences.activePalette;
+            select.appendChild(option);
+        });
+        select.addEventListener('click', e => e.stopPropagation());
+        select.addEventListener('change', () => {
+            preferences.activePalette = Number(select.value);
+            savePreferences(preferences);
+            renderPopup();
+        });
+        header.appendChild(select);
+        header.appendChild(createSmallButton(editingPalette ? 'Done' : 'Edit', () => {
+            editingPalette = !editingPalette;
+            renderPopup();
+        }));
+        section.appendChild(header);
+
+        const grid = document.createElement('div');
+        grid.style.cssText = `
             display: grid;
-            grid-template-columns: repeat(4, 1fr);
+            grid-template-columns: repeat(6, 1fr);
             gap: 6px;
-            z-index: 1000;
-            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
         `;
+        palette.colors.forEach((color, i) => {
+            const swatch = createSwatch(color, !editingPalette && color === currentColor);
+            if (editingPalette) {
+                swatch.textContent = '×';
+                swatch.title = `Remove ${color}`;
+                swatch.style.color = '#fff';
+                swatch.style.textAlign = 'center';
+                swatch.style.lineHeight = '24px';
+                swatch.style.textShadow = '0 0 2px #000';
+            }
+            swatch.addEventListener('click', (e) => {
+                e.stopPropagation();
+                if (editingPalette) {
+                    palette.colors.splice(i, 1);
+                    savePreferences(preferences);
+                    renderPopup();
+                } else {
+                    chooseColor(color);
+                    closePopup();
+                }
+            });
+            grid.appendChild(swatch);
+        });
+        if (editingPalette && palette.colors.length < MAX_PALETTE_COLORS) {
+            const add = createSwatch(currentColor, false);
+            add.textContent = '+';
+            add.title = 'Add the current color';
+            add.style.color = '#fff';
+            add.style.textAlign = 'center';
+            add.style.lineHeight = '24px';
+            add.style.textShadow = '0 0 2px #000';
+            add.style.borderStyle = 'dashed';
+            add.addEventListener('click', (e) => {
+                e.stopPropagation();
+                palette.colors.push(currentColor);
+                savePreferences(preferences);
+                renderPopup();
+            });
+            grid.appendChild(add);
+        }
+        section.appendChild(grid);
 
-        COLORS.forEach(color => {
-            const swatch = document.createElement('div');
-            swatch.style.cssText = `
-                width: 32px;
-                height: 32px;
-                background: ${color};
-                border: 2px solid ${color === currentColor ? '#fff' : '#444'};
-                border-radius: 4px;
-                cursor: pointer;
+        if (editingPalette) {
+            const actions = document.createElement('div');
+            actions.style.cssText = `
+                display: flex;
+                gap: 6px;
             `;
+            actions.appendChild(createSmallButton('New', () => {
+                const name = window.prompt('New palette', `Palette ${preferences.palettes.length + 1}`)?.trim();
+                if (!name) return;
+                preferences.palettes.push({ name, colors: [currentColor] });
+                preferences.activePalette = preferences.palettes.length - 1;
+                savePreferences(preferences);
+                renderPopup();
+            }));
+            actions.appendChild(createSmallButton('Rename', () => {
+                const name = window.prompt('Rename palette', palette.name)?.trim();
+                if (!name) return;
+                palette.name = name;
+                savePreferences(preferences);
+                renderPopup();
+            }));
+            const deleteButton = createSmallButton('Delete', () => {
+                if (!window.confirm(`Delete the palette "${palette.name}"?`)) return;
+                preferences.palettes.splice(preferences.activePalette, 1);
+                preferences.activePalette = Math.max(0, preferences.activePalette - 1);
+                savePreferences(preferences);
+                renderPopup();
+            });
+            deleteButton.disabled = preferences.palettes.length === 1;
+            actions.appendChild(deleteButton);
+            section.appendChild(actions);
+        }
+        return section;
+    }
+
+    function createRecentSection() {
+        const section = document.createElement('div');
+        section.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+        `;
+        section.appendChild(createLabel('Recent'));
+        const row = document.createElement('div');
+        row.style.cssText = `
+            display: grid;
+            grid-template-columns: repeat(${MAX_RECENT_COLORS}, 1fr);
+            gap: 4px;
+        `;
+        preferences.recent.forEach(color => {
+            const swatch = createSwatch(color, color === currentColor);
+            swatch.style.height = '22px';
             swatch.addEventListener('click', (e) => {
                 e.stopPropagation();
-                currentColor = color;
-                onChange(color);
-                updateTrigger();
+                chooseColor(color);
                 closePopup();
             });
-            div.appendChild(swatch);
+            row.appendChild(swatch);
         });
+        section.appendChild(row);
+        return section;
+    }
+
+    // Saturation/value square, hue and alpha sliders and hex field
+    function createCustomSection() {
+        const section = document.createElement('div');
+        section.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+        `;
+
+        const square = document.createElement('canvas');
+        square.style.cssText = `
+            width: ${PICKER_WIDTH}px;
+            height: ${PICKER_HEIGHT}px;
+            border-radius: 4px;
+            cursor: crosshair;
+            touch-action: none;
+        `;
+        const pixelRatio = window.devicePixelRatio || 1;
+        square.width = Math.round(PICKER_WIDTH * pixelRatio);
+        square.height = Math.round(PICKER_HEIGHT * pixelRatio);
+
+        const hue = document.createElement('input');
+        hue.type = 'range';
+        hue.min = '0';
+        hue.max = '360';
+        hue.title = 'Hue';
+        hue.style.background = 'linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)';
+
+        const opacity = document.createElement('input');
+        opacity.type = 'range';
+        opacity.min = '0';
+        opacity.max = '100';
+        opacity.title = 'Opacity';
+
+        const hexRow = document.createElement('div');
+        hexRow.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        `;
+        const preview = document.createElement('div');
+        preview.style.cssText = `
+            width: 28px;
+            height: 28px;
+            border: 2px solid #444;
+            border-radius: 4px;
+            box-sizing: border-box;
+        `;
+        const hex = document.createElement('input');
+        hex.type = 'text';
+        hex.spellcheck = false;
+        hex.title = '#RRGGBB, or #RRGGBBAA with opacity';
+        hex.style.cssText = `
+            flex: 1;
+            min-width: 0;
+            font-family: monospace;
+        `;
+        hexRow.appendChild(preview);
+        hexRow.appendChild(hex);
+        hexRow.appendChild(createSmallButton('Pick', () => {
+            closePopup();
+            onEyedropper();
+        }));
+
+        function update() {
+            const ctx = square.getContext('2d')!;
+            ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+            ctx.fillStyle = formatColor(hsvToRgb({ h: hsv.h, s: 1, v: 1 }));
+            ctx.fillRect(0, 0, PICKER_WIDTH, PICKER_HEIGHT);
+            const white = ctx.createLinearGradient(0, 0, PICKER_WIDTH, 0);
+            white.addColorStop(0, '#FFFFFF');
+            white.addColorStop(1, 'rgba(255, 255, 255, 0)');
+            ctx.fillStyle = white;
+            ctx.fillRect(0, 0, PICKER_WIDTH, PICKER_HEIGHT);
+            const black = ctx.createLinearGradient(0, 0, 0, PICKER_HEIGHT);
+            black.addColorStop(0, 'rgba(0, 0, 0, 0)');
+            black.addColorStop(1, '#000000');
+            ctx.fillStyle = black;
+            ctx.fillRect(0, 0, PICKER_WIDTH, PICKER_HEIGHT);
+            // Marker at the current saturation and value
+            ctx.beginPath();
+            ctx.arc(hsv.s * PICKER_WIDTH, (1 - hsv.v) * PICKER_HEIGHT, 5, 0, Math.PI * 2);
+            ctx.strokeStyle = hsv.v > 0.5 ? '#000' : '#fff';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+
+            const opaque = formatColor(hsvToRgb(hsv));
+            hue.value = String(Math.round(hsv.h));
+            opacity.value = String(Math.round(alpha * 100));
+            opacity.style.background = `linear-gradient(to right, transparent, ${opaque}), ` +
+                'repeating-conic-gradient(#808080 0 25%, #fff 0 50%) 0 0 / 8px 8px';
+            preview.style.background = getSwatchBackground(currentColor);
+            if (document.activeElement !== hex) {
+                hex.value = currentColor;
+            }
+        }
 
+        function pickFromSquare(e: PointerEvent, final: boolean) {
+            const rect = square.getBoundingClientRect();
+            hsv = {
+                h: hsv.h,
+                s: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+                v: Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height))
+            };
+            applyColor(getHsvColor(), final);
+            update();
+        }
+
+        let dragPointerId: number | null = null;
+        square.addEventListener('pointerdown', (e) => {
+            e.preventDefault();
+            dragPointerId = e.pointerId;
+            square.setPointerCapture(e.pointerId);
+            pickFromSquare(e, false);
+        });
+        square.addEventListener('pointermove', (e) => {
+            if (e.pointerId === dragPointerId) pickFromSquare(e, false);
+        });
+        const endDrag = (e: PointerEvent) => {
+            if (e.pointerId !== dragPointerId) return;
+            dragPointerId = null;
+            pickFromSquare(e, true);
+        };
+        square.addEventListener('pointerup', endDrag);
+        square.addEventListener('pointercancel', endDrag);
+
+        hue.addEventListener('input', () => {
+            hsv = { ...hsv, h: Number(hue.value) };
+            applyColor(getHsvColor(), false);
+            update();
+        });
+        opacity.addEventListener('input', () => {
+            alpha = Number(opacity.value) / 100;
+            applyColor(getHsvColor(), false);
+            update();
+        });
+        [hue, opacity].forEach(slider => {
+            slider.addEventListener('change', () => applyColor(getHsvColor(), true));
+        });
+        hex.addEventListener('change', () => {
+            if (parseColor(hex.value)) {
+                chooseColor(hex.value);
+            }
+            hex.value = currentColor;
+            update();
+        });
+        hex.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') hex.blur();
+        });
+
+        section.appendChild(createLabel('Custom'));
+        section.appendChild(square);
+        section.appendChild(hue);
+        section.appendChild(opacity);
+        section.appendChild(hexRow);
+        section.addEventListener('click', e => e.stopPropagation());
+        update();
+        return section;
+    }
+
+    // (Re)build the popup contents
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+        popup.appendChild(createPaletteSection());
+        if (preferences.recent.length > 0) {
+            popup.appendChild(createRecentSection());
+        }
+        popup.appendChild(createCustomSection());
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            width: ${PICKER_WIDTH}px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
         return div;
     }
 
@@ -79,6 +512,7 @@ export function createColorPicker(
     function openPopup() {
         if (popup) return;
         popup = createPopup();
+        renderPopup();
         document.body.appendChild(popup);
         positionPopup();
 
@@ -92,6 +526,7 @@ export function createColorPicker(
         if (popup) {
             popup.remove();
             popup = null;
+            editingPalette = false;
             document.removeEventListener('click', handleOutsideClick);
         }
     }
@@ -115,9 +550,14 @@ export function createColorPicker(
 
     return {
         getColor: () => currentColor,
+        // Use a color taken from elsewhere (e.g. the eyedropper); it joins the recent colors
         setColor: (color: string) => {
-            if (COLORS.includes(color)) {
-                currentColor = color;
+            const rgba = parseColor(color);
+            if (rgba) {
+                hsv = rgbToHsv(rgba);
+                alpha = rgba.a;
+                currentColor = formatColor(rgba);
+                addRecentColor(currentColor);
                 updateTrigger();
             }
         }
@@ -0,0 +1,434 @@
+/*
+ * Native WebDraw document format (.webdraw.json)
+ *
+ * {
+ *   "format": "webdraw",            // identifies the file type
+ *   "version": 8,                   // bumped whenever the layout changes
+ *   "name": "Drawing 1",
+ *   "createdAt": 1700000000000,     // ms since epoch
+ *   "updatedAt": 1700000000000,
+ *   "canvas": { "width": 1280, "height": 660 },   // viewport size when saved, in CSS pixels
+ *   "viewTransform": { "scale": 1, "rotation": 0, "panX": 0, "panY": 0 },  // rotation in radians
+ *   "layers": [                     // bottom to top
+ *     { "id": "layer-1", "name": "Layer 1", "visible": true, "locked": false, "opacity": 1 }
+ *   ],
+ *   "strokes": [                    // freehand strokes, shapes, text, images and fills, in drawing order
+ *     { "kind": "stroke", "id": "3f2a...", "layerId": "layer-1", "color": "#FF0000", "size": 6,
+ *       "points": [{ "x": 10, "y": 20 }, ...] },
+ *     { "kind": "arrow", "id": "9c1e...", "layerId": "layer-1", "color": "#000000", "size": 4,
+ *       "points": [{ "x": 0, "y": 0 }, { "x": 100, "y": 0 }] },
+ *     { "kind": "text", "id": "b7d0...", "layerId": "layer-1", "color": "#000000", "size": 24,
+ *       "text": "Note", "points": [{ "x": 0, "y": 0 }, { "x": 24, "y": 0 }] },
+ *     { "kind": "image", "id": "e45a...", "layerId": "layer-1", "src": "data:image/png;base64,...",
+ *       "opacity": 1, "background": false, "points": [4 corners] },
+ *     { "kind": "fill", "id": "51c8...", "layerId": "layer-1", "color": "#FFCC00",
+ *       "rings": [4], "points": [{ "x": 0, "y": 0 }, ...] }
+ *   ]
+ * }
+ *
+ * Colors are "#RRGGBB", or "#RRGGBBAA" for translucent ink.
+ *
+ * Every object has an "id", unique within the document, that stays the same
+ * when the object is moved or restyled. Collaborators use it to merge edits.
+ *
+ * Stroke points are in canvas coordinates and size is in canvas units. Points
+ * may also carry "pressure" and "tilt" (0..1) for variable-width strokes and
+ * "t" (ms since the stroke started); strokes without pressure render at
+ * constant width. Every stroke belongs to one of the listed layers, and
+ * strokes within a layer are drawn in array order.
+ *
+ * Shapes ("line", "arrow", "rectangle", "ellipse", "polygon") are outlines of
+ * constant width defined by their points: start and end for lines and arrows,
+ * the four corners of the box around rectangles and ellipses, and the
+ * vertices of polygons.
+ *
+ * Text ("text") has a font size ("size") and may span several lines. Its first
+ * point is the top-left corner of the text and the second gives the direction
+ * of the baseline.
+ *
+ * Images ("image") embed their picture as a data URL and are stretched over
+ * their four corners, clockwise from the picture's top-left. They have no
+ * color or size. A "background" image is a locked reference that can't be
+ * selected or erased; it draws beneath all layers, while it belongs to a
+ * visible one. Other images draw beneath the other objects of their layer.
+ *
+ * Fills ("fill") are areas painted with the paint bucket. Their points are one
+ * or more closed outlines, one after the other; "rings" gives the number of
+ * points in each. The outlines are filled with the even-odd rule, so outlines
+ * inside another cut holes in it. Fills have no size and draw above images but
+ * beneath the other objects of their layer.
+ *
+ * Older versions are upgraded by MIGRATIONS before validation, so readers only
+ * ever see the current layout. Documents stored in IndexedDB share the same
+ * version number and migrations.
+ */
+import { createId } from './ids';
+import { DEFAULT_LAYER_ID, createLayer } from './layers';
+import { getShapePointCount, isShapeKind } from './shapes';
+import type { DrawingObject, FillObject, ImageObject, Layer, Point, ViewTransform } from './types';
+
+export const FORMAT_NAME = 'webdraw';
+export const FORMAT_VERSION = 8;
+export const FILE_EXTENSION = '.webdraw.json';
+
+export interface CanvasInfo {
+    width: number;
+    height: number;
+}
+
+export interface DocumentFile {
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    canvas: CanvasInfo;
+    viewTransform: ViewTransform;
+    layers: Layer[];
+    strokes: DrawingObject[];
+}
+
+// Thrown when a document cannot be read; the message is suitable for display
+export class DocumentFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DocumentFormatError';
+    }
+}
+
+type RawDocument = Record<string, unknown> & { version: number };
+
+// Each entry upgrades a document from version `key` to `key + 1`
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+    // Version 0: unversioned autosaves and bare stroke arrays
+    0: (doc) => ({
+        ...doc,
+        version: 1,
+        viewTransform: doc.viewTransform ?? { scale: 1, rotation: 0, panX: 0, panY: 0 }
+    }),
+    // Version 1: no layers; everything goes onto a single layer
+    1: (doc) => ({
+        ...doc,
+        version: 2,
+        layers: [createLayer(DEFAULT_LAYER_ID, 'Layer 1')],
+        strokes: Array.isArray(doc.strokes)
+            ? doc.strokes.map(s => isObject(s) ? { ...s, layerId: DEFAULT_LAYER_ID } : s)
+            : doc.strokes
+    }),
+    // Version 2: only freehand strokes, without a kind
+    2: (doc) => ({
+        ...doc,
+        version: 3,
+        strokes: Array.isArray(doc.strokes)
+            ? doc.strokes.map(s => isObject(s) ? { ...s, kind: 'stroke' } : s)
+            : doc.strokes
+    }),
+    // Version 3: same layout; version 4 added text, which older readers reject
+    3: (doc) => ({ ...doc, version: 4 }),
+    // Version 4: same layout; version 5 added images
+    4: (doc) => ({ ...doc, version: 5 }),
+    // Version 5: same layout; version 6 added colors with alpha
+    5: (doc) => ({ ...doc, version: 6 }),
+    // Version 6: objects without ids
+    6: (doc) => ({
+        ...doc,
+        version: 7,
+        strokes: Array.isArray(doc.strokes)
+            ? doc.strokes.map(s => isObject(s) ? { ...s, id: createId() } : s)
+            : doc.strokes
+    }),
+    // Version 7: same layout; version 8 added fills
+    7: (doc) => ({ ...doc, version: 8 })
+};
+
+const DEFAULT_VIEW: ViewTransform = { scale: 1, rotation: 0, panX: 0, panY: 0 };
+const COLOR_PATTERN = /^#[0-9A-F]{6}([0-9A-F]{2})?$/i;
+const IMAGE_SRC_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/=]+$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Upgrade a raw document (file contents or stored record) to FORMAT_VERSION
+export function migrateDocument(raw: unknown): RawDocument {
+    let doc: RawDocument;
+    if (Array.isArray(raw)) {
+        doc = { version: 0, strokes: raw };
+    } else if (isObject(raw)) {
+        doc = { ...raw, version: raw.version === undefined ? 0 : raw.version as number };
+    } else {
+        throw new DocumentFormatError('File is not a WebDraw document.');
+    }
+
+    if (doc.format !== undefined && doc.format !== FORMAT_NAME) {
+        throw new DocumentFormatError(`Unsupported format "${String(doc.format)}".`);
+    }
+    if (!Number.isInteger(doc.version) || doc.version < 0) {
+        throw new DocumentFormatError('Document version is missing or invalid.');
+    }
+    if (doc.version > FORMAT_VERSION) {
+        throw new DocumentFormatError(
+            `Document version ${doc.version} is newer than this app supports (${FORMAT_VERSION}).`
+        );
+    }
+
+    while (doc.version < FORMAT_VERSION) {
+        doc = MIGRATIONS[doc.version](doc);
+    }
+    return doc;
+}
+
+function expectFiniteNumber(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new DocumentFormatError(`${path} must be a finite number.`);
+    }
+    return value;
+}
+
+function expectUnitInterval(value: unknown, path: string): number {
+    const n = expectFiniteNumber(value, path);
+    if (n < 0 || n > 1) {
+        throw new DocumentFormatError(`${path} must be between 0 and 1.`);
+    }
+    return n;
+}
+
+function validatePoint(raw: unknown, path: string): Point {
+    if (!isObject(raw)) {
+        throw new DocumentFormatError(`${path} must be an object with x and y.`);
+    }
+    const point: Point = {
+        x: expectFiniteNumber(raw.x, `${path}.x`),
+        y: expectFiniteNumber(raw.y, `${path}.y`)
+    };
+    if (raw.pressure !== undefined) {
+        point.pressure = expectUnitInterval(raw.pressure, `${path}.pressure`);
+    }
+    if (raw.tilt !== undefined) {
+        point.tilt = expectUnitInterval(raw.tilt, `${path}.tilt`);
+    }
+    if (raw.t !== undefined) {
+        point.t = expectFiniteNumber(raw.t, `${path}.t`);
+    }
+    return point;
+}
+
+function validateImage(raw: Record<string, unknown>, path: string, id: string, layerId: string): ImageObject {
+    if (typeof raw.src !== 'string' || !IMAGE_SRC_PATTERN.test(raw.src)) {
+        throw new DocumentFormatError(`${path}.src must be a base64 data URL of a PNG, JPEG, GIF or WebP image.`);
+    }
+    if (typeof raw.background !== 'boolean') {
+        throw new DocumentFormatError(`${path}.background must be a boolean.`);
+    }
+    if (!Array.isArray(raw.points) || raw.points.length !== 4) {
+        throw new DocumentFormatError(`${path}.points must have 4 points for an image.`);
+    }
+    return {
+        kind: 'image',
+        id,
+        layerId,
+        src: raw.src,
+        opacity: expectUnitInterval(raw.opacity, `${path}.opacity`),
+        background: raw.background,
+        points: raw.points.map((p, i) => validatePoint(p, `${path}.points[${i}]`))
+    };
+}
+
+function validateFill(raw: Record<string, unknown>, path: string, id: string, layerId: string, color: string): FillObject {
+    const rings = raw.rings;
+    if (!Array.isArray(rings) || rings.length === 0 || !rings.every(n => Number.isInteger(n) && n >= 3)) {
+        throw new DocumentFormatError(`${path}.rings must be a non-empty array of point counts of at least 3.`);
+    }
+    const total = (rings as number[]).reduce((sum, n) => sum + n, 0);
+    if (!Array.isArray(raw.points) || raw.points.length !== total) {
+        throw new DocumentFormatError(`${path}.points must have ${total} points, as many as ${path}.rings adds up to.`);
+    }
+    return {
+        kind: 'fill',
+        id,
+        layerId,
+        color,
+        rings: rings as number[],
+        points: raw.points.map((p, i) => validatePoint(p, `${path}.points[${i}]`))
+    };
+}
+
+function validateObject(raw: unknown, path: string, layerIds: Pick<Set<string>, 'has'>): DrawingObject {
+    if (!isObject(raw)) {
+        throw new DocumentFormatError(`${path} must be an object.`);
+    }
+    const kind = raw.kind;
+    if (kind !== 'stroke' && kind !== 'text' && kind !== 'image' && kind !== 'fill' && !isShapeKind(kind)) {
+        throw new DocumentFormatError(
+            `${path}.kind must be "stroke", "text", "image", "fill" or a shape kind, got ${JSON.stringify(kind)}.`
+        );
+    }
+    if (typeof raw.id !== 'string' || !raw.id) {
+        throw new DocumentFormatError(`${path}.id must be a non-empty string.`);
+    }
+    if (typeof raw.layerId !== 'string' || !layerIds.has(raw.layerId)) {
+        throw new DocumentFormatError(`${path}.layerId must name one of the layers, got ${JSON.stringify(raw.layerId)}.`);
+    }
+    if (kind === 'image') {
+        return validateImage(raw, path, raw.id, raw.layerId);
+    }
+    if (typeof raw.color !== 'string' || !COLOR_PATTERN.test(raw.color)) {
+        throw new DocumentFormatError(`${path}.color must be a #RRGGBB or #RRGGBBAA color, got ${JSON.stringify(raw.color)}.`);
+    }
+    if (kind === 'fill') {
+        return validateFill(raw, path, raw.id, raw.layerId, raw.color.toUpperCase());
+    }
+    const size = expectFiniteNumber(raw.size, `${path}.size`);
+    if (size <= 0) {
+        throw new DocumentFormatError(`${path}.size must be positive.`);
+    }
+    if (!Array.isArray(raw.points) || raw.points.length === 0) {
+        throw new DocumentFormatError(`${path}.points must be a non-empty array.`);
+    }
+    const points = raw.points.map((p, i) => validatePoint(p, `${path}.points[${i}]`));
+    const base = { id: raw.id, layerId: raw.layerId, color: raw.color.toUpperCase(), size, points };
+
+    if (kind === 'text') {
+        if (typeof raw.text !== 'string' || !raw.text) {
+            throw new DocumentFormatError(`${path}.text must be a non-empty string.`);
+        }
+        if (points.length !== 2 || (points[0].x === points[1].x && points[0].y === points[1].y)) {
+            throw new DocumentFormatError(`${path}.points must be two distinct points for text.`);
+        }
+        return { kind, text: raw.text, ...base };
+    }
+    if (kind !== 'stroke') {
+        const count = getShapePointCount(kind);
+        if (kind === 'polygon' ? raw.points.length < count : raw.points.length !== count) {
+            throw new DocumentFormatError(
+                `${path}.points must have ${kind === 'polygon' ? 'at least ' : ''}${count} points for a ${kind}.`
+            );
+        }
+    }
+    return { kind, ...base };
+}
+
+function validateLayer(raw: unknown, path: string): Layer {
+    if (!isObject(raw)) {
+        throw new DocumentFormatError(`${path} must be an object.`);
+    }
+    if (typeof raw.id !== 'string' || !raw.id) {
+        throw new DocumentFormatError(`${path}.id must be a non-empty string.`);
+    }
+    if (typeof raw.name !== 'string') {
+        throw new DocumentFormatError(`${path}.name must be a string.`);
+    }
+    if (typeof raw.visible !== 'boolean' || typeof raw.locked !== 'boolean') {
+        throw new DocumentFormatError(`${path}.visible and ${path}.locked must be booleans.`);
+    }
+    return {
+        id: raw.id,
+        name: raw.name,
+        visible: raw.visible,
+        locked: raw.locked,
+        opacity: expectUnitInterval(raw.opacity, `${path}.opacity`)
+    };
+}
+
+function validateLayers(raw: unknown): Layer[] {
+    if (!Array.isArray(raw) || raw.length === 0) {
+        throw new DocumentFormatError('layers must be a non-empty array.');
+    }
+    const layers = raw.map((l, i) => validateLayer(l, `layers[${i}]`));
+    const ids = new Set<string>();
+    layers.forEach((layer, i) => {
+        if (ids.has(layer.id)) {
+            throw new DocumentFormatError(`layers[${i}].id "${layer.id}" is used by another layer.`);
+        }
+        ids.add(layer.id);
+    });
+    return layers;
+}
+
+function validateViewTransform(raw: unknown): ViewTransform {
+    if (!isObject(raw)) {
+        throw new DocumentFormatError('viewTransform must be an object.');
+    }
+    const scale = expectFiniteNumber(raw.scale, 'viewTransform.scale');
+    if (scale <= 0) {
+        throw new DocumentFormatError('viewTransform.scale must be positive.');
+    }
+    return {
+        scale,
+        rotation: expectFiniteNumber(raw.rotation, 'viewTransform.rotation'),
+        panX: expectFiniteNumber(raw.panX, 'viewTransform.panX'),
+        panY: expectFiniteNumber(raw.panY, 'viewTransform.panY')
+    };
+}
+
+function validateCanvas(raw: unknown): CanvasInfo {
+    if (raw === undefined) {
+        return { width: 0, height: 0 };
+    }
+    if (!isObject(raw)) {
+        throw new DocumentFormatError('canvas must be an object.');
+    }
+    return {
+        width: expectFiniteNumber(raw.width, 'canvas.width'),
+        height: expectFiniteNumber(raw.height, 'canvas.height')
+    };
+}
+
+// Validate a migrated document, producing clean copies of every value
+export function validateDocument(doc: RawDocument): DocumentFile {
+    if (!Array.isArray(doc.strokes)) {
+        throw new DocumentFormatError('strokes must be an array.');
+    }
+    const now = Date.now();
+    const layers = validateLayers(doc.layers);
+    const layerIds = new Set(layers.map(layer => layer.id));
+    return {
+        name: typeof doc.name === 'string' && doc.name.trim() ? doc.name.trim() : 'Imported drawing',
+        createdAt: typeof doc.createdAt === 'number' && Number.isFinite(doc.createdAt) ? doc.createdAt : now,
+        updatedAt: typeof doc.updatedAt === 'number' && Number.isFinite(doc.updatedAt) ? doc.updatedAt : now,
+        canvas: validateCanvas(doc.canvas),
+        viewTransform: doc.viewTransform === undefined ? { ...DEFAULT_VIEW } : validateViewTransform(doc.viewTransform),
+        layers,
+        strokes: validateObjects(doc.strokes, layerIds)
+    };
+}
+
+function validateObjects(raw: unknown[], layerIds: Set<string>): DrawingObject[] {
+    const objects = raw.map((s, i) => validateObject(s, `strokes[${i}]`, layerIds));
+    const ids = new Set<string>();
+    objects.forEach((obj, i) => {
+        if (ids.has(obj.id)) {
+            throw new DocumentFormatError(`strokes[${i}].id "${obj.id}" is used by another object.`);
+        }
+        ids.add(obj.id);
+    });
+    return objects;
+}
+
+// Validate a single object received from a collaborator. Its layer may not have
+// arrived yet, so any layer id is accepted.
+export function parseSharedObject(raw: unknown): DrawingObject {
+    return validateObject(raw, 'object', { has: id => id !== '' });
+}
+
+// Validate a layer received from a collaborator
+export function parseSharedLayer(raw: unknown): Layer {
+    return validateLayer(raw, 'layer');
+}
+
+// Parse and validate the contents of a .webdraw.json file
+export function parseDocument(text: string): DocumentFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new DocumentFormatError('File is not valid JSON.');
+    }
+    return validateDocument(migrateDocument(raw));
+}
+
+export function serializeDocument(doc: DocumentFile): string {
+    return JSON.stringify({
+        format: FORMAT_NAME,
+        version: FORMAT_VERSION,
+        ...doc
+    });
+}
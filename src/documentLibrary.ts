@@ -0,0 +1,248 @@
+import { FILE_EXTENSION } from './documentFormat';
+import type { DocumentSummary } from './storage';
+
+// Whether an imported file replaces the open drawing or is added to it
+export type ImportMode = 'replace' | 'merge';
+
+interface DocumentLibraryOptions {
+    listDocuments: () => Promise<DocumentSummary[]>;
+    onCreate: () => void;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File, mode: ImportMode) => void;
+}
+
+// Format a timestamp as a short, locale-aware date/time
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+}
+
+export function createDocumentLibrary(
+    triggerElement: HTMLElement,
+    options: DocumentLibraryOptions
+) {
+    let currentId: string | null = null;
+    let currentName = '';
+    let popup: HTMLElement | null = null;
+
+    // Show the name of the open drawing on the trigger
+    function updateTrigger() {
+        triggerElement.textContent = currentName || 'Drawings';
+        triggerElement.title = currentName;
+    }
+
+    function createActionButton(label: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 4px 8px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function createRow(doc: DocumentSummary) {
+        const row = document.createElement('div');
+        const isCurrent = doc.id === currentId;
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px;
+            border: 2px solid ${isCurrent ? '#fff' : '#444'};
+            border-radius: 4px;
+            background: ${isCurrent ? '#555' : '#333'};
+        `;
+
+        const info = document.createElement('div');
+        info.style.cssText = `
+            flex: 1;
+            min-width: 0;
+            cursor: pointer;
+            color: #fff;
+        `;
+        const name = document.createElement('div');
+        name.textContent = doc.name;
+        name.style.cssText = `
+            font-size: 14px;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        `;
+        const date = document.createElement('div');
+        date.textContent = formatDate(doc.updatedAt);
+        date.style.cssText = `
+            font-size: 11px;
+            color: #aaa;
+        `;
+        info.appendChild(name);
+        info.appendChild(date);
+        info.addEventListener('click', (e) => {
+            e.stopPropagation();
+            if (doc.id !== currentId) {
+                options.onOpen(doc.id);
+            }
+            closePopup();
+        });
+
+        row.appendChild(info);
+        row.appendChild(createActionButton('Rename', () => {
+            const newName = window.prompt('Rename drawing', doc.name)?.trim();
+            if (newName && newName !== doc.name) {
+                options.onRename(doc.id, newName);
+                closePopup();
+            }
+        }));
+        row.appendChild(createActionButton('Copy', () => {
+            options.onDuplicate(doc.id);
+            closePopup();
+        }));
+        row.appendChild(createActionButton('Delete', () => {
+            if (window.confirm(`Delete "${doc.name}"? This cannot be undone.`)) {
+                options.onDelete(doc.id);
+                closePopup();
+            }
+        }));
+
+        return row;
+    }
+
+    // Let the user pick a .webdraw.json file
+    function pickFile(mode: ImportMode) {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = `${FILE_EXTENSION},.json,application/json`;
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (file) {
+                options.onImport(file, mode);
+            }
+        });
+        input.click();
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            width: 320px;
+            max-height: 60vh;
+            overflow-y: auto;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            gap: 6px;
+        `;
+        const newButton = createActionButton('New drawing', () => {
+            options.onCreate();
+            closePopup();
+        });
+        newButton.style.background = '#4a90d9';
+        const replaceButton = createActionButton('Import (replace)', () => {
+            closePopup();
+            pickFile('replace');
+        });
+        const mergeButton = createActionButton('Import (merge)', () => {
+            closePopup();
+            pickFile('merge');
+        });
+        [newButton, replaceButton, mergeButton].forEach(button => {
+            button.style.flex = '1';
+            button.style.padding = '8px 4px';
+            header.appendChild(button);
+        });
+        div.appendChild(header);
+
+        const list = document.createElement('div');
+        list.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+        `;
+        div.appendChild(list);
+
+        options.listDocuments().then(docs => {
+            docs.forEach(doc => list.appendChild(createRow(doc)));
+        }).catch(err => {
+            console.error('Failed to list drawings', err);
+        });
+
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${rect.left}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+
+    updateTrigger();
+
+    return {
+        setCurrent: (id: string, name: string) => {
+            currentId = id;
+            currentName = name;
+            updateTrigger();
+        }
+    };
+}
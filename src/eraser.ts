@@ -0,0 +1,93 @@
+import { pointInFill } from './fill';
+import { distanceToSegment, getDistance, lerpPoint, pointInPolygon, segmentDistance } from './geometry';
+import { createId } from './ids';
+import { getObjectPaths } from './shapes';
+import type { DrawingObject, Point, Stroke } from './types';
+
+// Whether the eraser, swept from `from` to `to`, touches any of the object's ink
+function touchesStroke(obj: DrawingObject, from: Point, to: Point, radius: number): boolean {
+    // Background images are out of the eraser's reach
+    if (obj.kind === 'image' && obj.background) return false;
+    const paths = getObjectPaths(obj);
+    // Text and images are erased by touching anywhere on their box, not just its outline,
+    // and fills anywhere inside them
+    if (obj.kind === 'fill' && pointInFill(to, obj)) return true;
+    const boxed = obj.kind === 'text' || obj.kind === 'image';
+    if (boxed && pointInPolygon(to, paths[0])) return true;
+    const reach = radius + (boxed || obj.kind === 'fill' ? 0 : obj.size / 2);
+    return paths.some(points => {
+        if (points.length === 1) {
+            return distanceToSegment(points[0], from, to) <= reach;
+        }
+        for (let i = 1; i < points.length; i++) {
+            if (segmentDistance(points[i - 1], points[i], from, to) <= reach) {
+                return true;
+            }
+        }
+        return false;
+    });
+}
+
+// Remove every stroke or shape the eraser touches
+export function eraseWholeStrokes(strokes: DrawingObject[], from: Point, to: Point, radius: number): DrawingObject[] {
+    return strokes.filter(stroke => !touchesStroke(stroke, from, to, radius));
+}
+
+// Cut the part of a stroke under the eraser, pushing the remaining pieces to `result`
+function splitStroke(stroke: Stroke, from: Point, to: Point, radius: number, result: DrawingObject[]) {
+    // Centerline points closer than this would leave ink (the stroke's round cap) under the eraser
+    const reach = radius + stroke.size / 2;
+    // Segments near the eraser are resampled at this spacing so the cut lands precisely
+    const step = Math.max(0.5, Math.min(stroke.size, radius) / 2);
+
+    let run: Point[] = [];
+    let tailInterpolated = false;
+    let pieces = 0;
+    const flush = () => {
+        if (run.length >= 2) {
+            // The first piece carries on as the original stroke; the rest are new strokes
+            result.push({ ...stroke, id: pieces++ === 0 ? stroke.id : createId(), points: run });
+        }
+        run = [];
+    };
+    const visit = (p: Point, interpolated: boolean) => {
+        if (distanceToSegment(p, from, to) <= reach) {
+            flush();
+        } else if (interpolated && tailInterpolated && run.length >= 2) {
+            // Collinear resampled points are only needed next to a cut
+            run[run.length - 1] = p;
+        } else {
+            run.push(p);
+        }
+        tailInterpolated = interpolated;
+    };
+
+    const points = stroke.points;
+    visit(points[0], false);
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (segmentDistance(a, b, from, to) <= reach + step) {
+            const count = Math.ceil(getDistance(a, b) / step);
+            for (let k = 1; k < count; k++) {
+                visit(lerpPoint(a, b, k / count), true);
+            }
+        }
+        visit(b, false);
+    }
+    flush();
+}
+
+// Erase only the ink under the eraser, splitting strokes it passes through. Shapes, text
+// and images are erased whole. Objects that are not touched keep their identity so history diffs stay small.
+export function eraseStrokeSegments(strokes: DrawingObject[], from: Point, to: Point, radius: number): DrawingObject[] {
+    const result: DrawingObject[] = [];
+    strokes.forEach(stroke => {
+        if (!touchesStroke(stroke, from, to, radius)) {
+            result.push(stroke);
+        } else if (stroke.kind === 'stroke' && stroke.points.length > 1) {
+            splitStroke(stroke, from, to, radius, result);
+        }
+    });
+    return result;
+}
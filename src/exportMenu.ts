@@ -0,0 +1,233 @@
+import {
+    downloadBlob,
+    exportPDF,
+    exportPNG,
+    exportSVG,
+    type ExportOptions
+} from './exporter';
+import { FILE_EXTENSION } from './documentFormat';
+import type { LayerContent } from './layers';
+import { getObjectsBounds } from './shapes';
+
+interface ExportMenuOptions {
+    getLayers: () => LayerContent[];  // visible layers only
+    getFileName: () => string;
+    getDocumentJSON: () => string;
+}
+
+type ExportFormat = 'png' | 'svg' | 'pdf';
+
+const SCALES = [1, 2, 3, 4];
+
+// Strip characters that are not allowed in file names
+export function sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'drawing';
+}
+
+export function createExportMenu(
+    triggerElement: HTMLElement,
+    options: ExportMenuOptions
+) {
+    let popup: HTMLElement | null = null;
+
+    // Settings are remembered while the page is open. Images default to at least the
+    // screen's own resolution.
+    let padding = 20;
+    let scale = Math.min(SCALES[SCALES.length - 1], Math.max(2, Math.ceil(window.devicePixelRatio || 1)));
+    let transparent = false;
+    let backgroundColor = '#FFFFFF';
+
+    function getExportOptions(): ExportOptions {
+        return {
+            padding,
+            scale,
+            background: transparent ? null : backgroundColor
+        };
+    }
+
+    // Lossless native format, independent of the image options
+    function saveDocumentFile() {
+        const blob = new Blob([options.getDocumentJSON()], { type: 'application/json' });
+        downloadBlob(blob, `${sanitizeFileName(options.getFileName())}${FILE_EXTENSION}`);
+    }
+
+    async function runExport(format: ExportFormat) {
+        const layers = options.getLayers();
+        const bounds = getObjectsBounds(layers.flatMap(content => content.strokes));
+        if (!bounds) {
+            window.alert('Nothing to export yet.');
+            return;
+        }
+
+        const exportOptions = getExportOptions();
+        const baseName = sanitizeFileName(options.getFileName());
+        let blob: Blob;
+        if (format === 'png') {
+            blob = await exportPNG(layers, bounds, exportOptions);
+        } else if (format === 'svg') {
+            blob = exportSVG(layers, bounds, exportOptions);
+        } else {
+            blob = exportPDF(layers, bounds, exportOptions);
+        }
+        downloadBlob(blob, `${baseName}.${format}`);
+    }
+
+    function createRow(label: string, control: HTMLElement) {
+        const row = document.createElement('label');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            gap: 10px;
+            color: #fff;
+            font-size: 13px;
+        `;
+        row.append(label, control);
+        return row;
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 10px;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            width: 220px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+
+        const paddingInput = document.createElement('input');
+        paddingInput.type = 'number';
+        paddingInput.min = '0';
+        paddingInput.max = '500';
+        paddingInput.value = String(padding);
+        paddingInput.style.width = '70px';
+        paddingInput.addEventListener('change', () => {
+            const value = parseFloat(paddingInput.value);
+            padding = Number.isFinite(value) ? Math.max(0, value) : 0;
+            paddingInput.value = String(padding);
+        });
+        div.appendChild(createRow('Padding', paddingInput));
+
+        const scaleSelect = document.createElement('select');
+        SCALES.forEach(s => {
+            const option = document.createElement('option');
+            option.value = String(s);
+            option.textContent = `${s}x`;
+            option.selected = s === scale;
+            scaleSelect.appendChild(option);
+        });
+        scaleSelect.addEventListener('change', () => {
+            scale = parseFloat(scaleSelect.value);
+        });
+        div.appendChild(createRow('Scale', scaleSelect));
+
+        const colorInput = document.createElement('input');
+        colorInput.type = 'color';
+        colorInput.value = backgroundColor.toLowerCase();
+        colorInput.disabled = transparent;
+        colorInput.addEventListener('input', () => {
+            backgroundColor = colorInput.value.toUpperCase();
+        });
+        div.appendChild(createRow('Background', colorInput));
+
+        const transparentInput = document.createElement('input');
+        transparentInput.type = 'checkbox';
+        transparentInput.checked = transparent;
+        transparentInput.addEventListener('change', () => {
+            transparent = transparentInput.checked;
+            colorInput.disabled = transparent;
+        });
+        div.appendChild(createRow('Transparent', transparentInput));
+
+        const buttons = document.createElement('div');
+        buttons.style.cssText = `
+            display: flex;
+            gap: 6px;
+        `;
+        (['png', 'svg', 'pdf'] as ExportFormat[]).forEach(format => {
+            const button = document.createElement('button');
+            button.textContent = format.toUpperCase();
+            button.style.cssText = `
+                flex: 1;
+                padding: 8px 0;
+                background: #4a90d9;
+                color: #fff;
+            `;
+            button.addEventListener('click', (e) => {
+                e.stopPropagation();
+                runExport(format).catch(err => {
+                    console.error('Export failed', err);
+                    window.alert('Export failed.');
+                });
+                closePopup();
+            });
+            buttons.appendChild(button);
+        });
+        div.appendChild(buttons);
+
+        const jsonButton = document.createElement('button');
+        jsonButton.textContent = 'WebDraw file (.webdraw.json)';
+        jsonButton.style.cssText = `
+            padding: 8px 0;
+            background: #555;
+            color: #fff;
+        `;
+        jsonButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            saveDocumentFile();
+            closePopup();
+        });
+        div.appendChild(jsonButton);
+
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${rect.left}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+}
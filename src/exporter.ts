@@ -0,0 +1,467 @@
+import { getColorAlpha, getOpaqueColor } from './color';
+import { getFillRings } from './fill';
+import { getImageMatrix, getLoadedImage } from './images';
+import type { LayerContent } from './layers';
+import { getShapePath, isShape } from './shapes';
+import { getBezierSegments } from './smoothing';
+import { drawLayer, getStrokeOutline, isVariableWidth } from './strokeRenderer';
+import { TEXT_ASCENT, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT, getTextLines, getTextRotation } from './text';
+import type { Bounds, FillObject, ImageObject, Shape, Stroke, TextObject } from './types';
+
+export interface ExportOptions {
+    padding: number;             // in drawing units, added around the strokes' bounds
+    background: string | null;   // null for a transparent background
+    scale: number;               // output pixels per drawing unit
+}
+
+// Output area in drawing coordinates plus the resulting pixel size
+interface ExportFrame {
+    originX: number;
+    originY: number;
+    width: number;
+    height: number;
+    pixelWidth: number;
+    pixelHeight: number;
+}
+
+function getExportFrame(bounds: Bounds, options: ExportOptions): ExportFrame {
+    const width = bounds.maxX - bounds.minX + options.padding * 2;
+    const height = bounds.maxY - bounds.minY + options.padding * 2;
+    return {
+        originX: bounds.minX - options.padding,
+        originY: bounds.minY - options.padding,
+        width,
+        height,
+        pixelWidth: Math.max(1, Math.ceil(width * options.scale)),
+        pixelHeight: Math.max(1, Math.ceil(height * options.scale))
+    };
+}
+
+// Format a number compactly for SVG/PDF output
+function fmt(n: number): string {
+    return String(Math.round(n * 100) / 100);
+}
+
+// Render layers to a detached canvas, independent of the on-screen view transform
+export function renderToCanvas(layers: LayerContent[], bounds: Bounds, options: ExportOptions): HTMLCanvasElement {
+    const frame = getExportFrame(bounds, options);
+    const offscreen = document.createElement('canvas');
+    offscreen.width = frame.pixelWidth;
+    offscreen.height = frame.pixelHeight;
+    const offCtx = offscreen.getContext('2d')!;
+
+    if (options.background) {
+        offCtx.fillStyle = options.background;
+        offCtx.fillRect(0, 0, offscreen.width, offscreen.height);
+    }
+
+    offCtx.scale(options.scale, options.scale);
+    offCtx.translate(-frame.originX, -frame.originY);
+    offCtx.lineCap = 'round';
+    offCtx.lineJoin = 'round';
+    const scratch = document.createElement('canvas');
+    layers.forEach(({ layer, strokes }) => drawLayer(offCtx, strokes, layer.opacity, scratch));
+
+    return offscreen;
+}
+
+export function exportPNG(layers: LayerContent[], bounds: Bounds, options: ExportOptions): Promise<Blob> {
+    const offscreen = renderToCanvas(layers, bounds, options);
+    return new Promise((resolve, reject) => {
+        offscreen.toBlob(blob => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('PNG encoding failed'));
+            }
+        }, 'image/png');
+    });
+}
+
+// Smoothed path data for a stroke; single points become zero-length segments that render as round dots
+function getPathData(stroke: Stroke): string {
+    const first = stroke.points[0];
+    const start = `M${fmt(first.x)} ${fmt(first.y)}`;
+    if (stroke.points.length === 1) {
+        return `${start}L${fmt(first.x)} ${fmt(first.y)}`;
+    }
+    return start + getBezierSegments(stroke.points).map(({ cp1, cp2, to }) =>
+        `C${fmt(cp1.x)} ${fmt(cp1.y)} ${fmt(cp2.x)} ${fmt(cp2.y)} ${fmt(to.x)} ${fmt(to.y)}`
+    ).join('');
+}
+
+// Path data for a fill's outlines, one closed subpath each
+function getFillPathData(fill: FillObject): string {
+    return getFillRings(fill).map(ring =>
+        ring.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join('') + 'Z'
+    ).join('');
+}
+
+// Filled path data for a variable-width stroke's outline
+function getOutlinePathData(stroke: Stroke): string {
+    const outline = getStrokeOutline(stroke);
+    const circles = outline.circles.map(c => {
+        const r = fmt(c.r);
+        return `M${fmt(c.x + c.r)} ${fmt(c.y)}A${r} ${r} 0 1 1 ${fmt(c.x - c.r)} ${fmt(c.y)}` +
+            `A${r} ${r} 0 1 1 ${fmt(c.x + c.r)} ${fmt(c.y)}Z`;
+    });
+    const quads = outline.quads.map(quad =>
+        quad.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join('') + 'Z'
+    );
+    return circles.concat(quads).join('');
+}
+
+// Path data for a shape outline
+function getShapePathData(shape: Shape): string {
+    return getShapePath(shape).map(command => {
+        if (command.type === 'C') {
+            const { cp1, cp2, to } = command;
+            return `C${fmt(cp1.x)} ${fmt(cp1.y)} ${fmt(cp2.x)} ${fmt(cp2.y)} ${fmt(to.x)} ${fmt(to.y)}`;
+        }
+        return command.type === 'Z' ? 'Z' : `${command.type}${fmt(command.to.x)} ${fmt(command.to.y)}`;
+    }).join('');
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// Paint attribute for a stored color; alpha goes into a separate opacity attribute,
+// which more SVG readers understand than #RRGGBBAA
+function getSvgPaint(attribute: 'fill' | 'stroke', color: string): string {
+    const alpha = getColorAlpha(color);
+    const opacity = alpha < 1 ? ` ${attribute}-opacity="${fmt(alpha)}"` : '';
+    return `${attribute}="${escapeAttribute(getOpaqueColor(color))}"${opacity}`;
+}
+
+function escapeText(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// <text> element with one <tspan> per line, positioned like the canvas rendering
+function getSvgText(obj: TextObject): string {
+    const origin = obj.points[0];
+    const degrees = getTextRotation(obj) * 180 / Math.PI;
+    const lines = getTextLines(obj).map((line, i) =>
+        `<tspan x="0" y="${fmt((TEXT_ASCENT + i * TEXT_LINE_HEIGHT) * obj.size)}">${escapeText(line)}</tspan>`
+    );
+    return `<text transform="translate(${fmt(origin.x)} ${fmt(origin.y)}) rotate(${fmt(degrees)})" ` +
+        `font-family="${TEXT_FONT_FAMILY}" font-size="${fmt(obj.size)}" ${getSvgPaint('fill', obj.color)} ` +
+        `stroke="none" xml:space="preserve">${lines.join('')}</text>`;
+}
+
+// <image> element stretched over the image's corners
+function getSvgImage(obj: ImageObject): string {
+    const opacity = obj.opacity < 1 ? ` opacity="${fmt(obj.opacity)}"` : '';
+    return `<image href="${escapeAttribute(obj.src)}" width="1" height="1" preserveAspectRatio="none" ` +
+        `transform="matrix(${getImageMatrix(obj).map(fmt).join(' ')})"${opacity}/>`;
+}
+
+// Vector export with one <g> per layer and one <path> (or <text>, <image>) per object
+export function exportSVG(layers: LayerContent[], bounds: Bounds, options: ExportOptions): Blob {
+    const frame = getExportFrame(bounds, options);
+    const lines = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${frame.pixelWidth}" height="${frame.pixelHeight}" ` +
+        `viewBox="${fmt(frame.originX)} ${fmt(frame.originY)} ${fmt(frame.width)} ${fmt(frame.height)}">`
+    ];
+
+    if (options.background) {
+        lines.push(
+            `<rect x="${fmt(frame.originX)}" y="${fmt(frame.originY)}" width="${fmt(frame.width)}" ` +
+            `height="${fmt(frame.height)}" fill="${escapeAttribute(options.background)}"/>`
+        );
+    }
+
+    lines.push('<g fill="none" stroke-linecap="round" stroke-linejoin="round">');
+    layers.forEach(({ layer, strokes }) => {
+        const opacity = layer.opacity < 1 ? ` opacity="${fmt(layer.opacity)}"` : '';
+        lines.push(`<g data-name="${escapeAttribute(layer.name)}"${opacity}>`);
+        strokes.forEach(stroke => {
+            if (stroke.points.length === 0) return;
+            if (stroke.kind === 'text') {
+                lines.push(getSvgText(stroke));
+                return;
+            }
+            if (stroke.kind === 'image') {
+                lines.push(getSvgImage(stroke));
+                return;
+            }
+            if (stroke.kind === 'fill') {
+                lines.push(`<path d="${getFillPathData(stroke)}" fill-rule="evenodd" ${getSvgPaint('fill', stroke.color)}/>`);
+                return;
+            }
+            if (!isShape(stroke) && isVariableWidth(stroke)) {
+                lines.push(`<path d="${getOutlinePathData(stroke)}" ${getSvgPaint('fill', stroke.color)}/>`);
+                return;
+            }
+            const d = isShape(stroke) ? getShapePathData(stroke) : getPathData(stroke);
+            lines.push(
+                `<path d="${d}" ${getSvgPaint('stroke', stroke.color)} ` +
+                `stroke-width="${fmt(stroke.size)}"/>`
+            );
+        });
+        lines.push('</g>');
+    });
+    lines.push('</g>', '</svg>');
+
+    return new Blob([lines.join('\n')], { type: 'image/svg+xml' });
+}
+
+// Convert a #RRGGBB color to PDF's 0..1 components. Any alpha (#RRGGBBAA) is left out;
+// exportPDF applies it with a graphics state.
+function toPdfColor(color: string): string {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/i.exec(color);
+    if (!match) return '0 0 0';
+    return match.slice(1, 4).map(hex => fmt(parseInt(hex, 16) / 255)).join(' ');
+}
+
+// PDF path operators for a variable-width stroke's outline (circles as four Bezier arcs)
+function getOutlinePdfOps(stroke: Stroke): string {
+    const outline = getStrokeOutline(stroke);
+    const K = 0.5523;
+    const circles = outline.circles.map(({ x, y, r }) => {
+        const k = r * K;
+        return [
+            `${fmt(x + r)} ${fmt(y)} m`,
+            `${fmt(x + r)} ${fmt(y + k)} ${fmt(x + k)} ${fmt(y + r)} ${fmt(x)} ${fmt(y + r)} c`,
+            `${fmt(x - k)} ${fmt(y + r)} ${fmt(x - r)} ${fmt(y + k)} ${fmt(x - r)} ${fmt(y)} c`,
+            `${fmt(x - r)} ${fmt(y - k)} ${fmt(x - k)} ${fmt(y - r)} ${fmt(x)} ${fmt(y - r)} c`,
+            `${fmt(x + k)} ${fmt(y - r)} ${fmt(x + r)} ${fmt(y - k)} ${fmt(x + r)} ${fmt(y)} c h`
+        ].join(' ');
+    });
+    const quads = outline.quads.map(quad =>
+        quad.map((p, i) => `${fmt(p.x)} ${fmt(p.y)} ${i === 0 ? 'm' : 'l'}`).join(' ') + ' h'
+    );
+    return circles.concat(quads).join('\n') + '\nf';
+}
+
+// Assemble a single-page PDF around a content stream
+// `extraObjects` are numbered from 6 on
+function buildPdf(
+    pageWidth: number,
+    pageHeight: number,
+    content: string,
+    resources: string,
+    extraObjects: string[] = []
+): Blob {
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(pageWidth)} ${fmt(pageHeight)}] ` +
+        `/Contents 4 0 R /Resources ${resources} >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        // Text uses a standard font, so nothing needs to be embedded
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        ...extraObjects
+    ];
+
+    // Content is plain ASCII, so string lengths equal byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+        offsets.push(pdf.length);
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+        pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    });
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Blob([pdf], { type: 'application/pdf' });
+}
+
+// PDF operators that stroke a shape outline
+function getShapePdfOps(shape: Shape): string {
+    const path = getShapePath(shape).map(command => {
+        if (command.type === 'C') {
+            const { cp1, cp2, to } = command;
+            return `${fmt(cp1.x)} ${fmt(cp1.y)} ${fmt(cp2.x)} ${fmt(cp2.y)} ${fmt(to.x)} ${fmt(to.y)} c`;
+        }
+        return command.type === 'Z' ? 'h' : `${fmt(command.to.x)} ${fmt(command.to.y)} ${command.type === 'M' ? 'm' : 'l'}`;
+    });
+    return `${toPdfColor(shape.color)} RG ${fmt(shape.size)} w\n${path.join(' ')} S`;
+}
+
+// PDF operators that paint a fill with the even-odd rule
+function getFillPdfOps(fill: FillObject): string {
+    const path = getFillRings(fill).map(ring =>
+        ring.map((p, i) => `${fmt(p.x)} ${fmt(p.y)} ${i === 0 ? 'm' : 'l'}`).join(' ') + ' h'
+    );
+    return `${toPdfColor(fill.color)} rg\n${path.join('\n')}\nf*`;
+}
+
+// PDF string literal in WinAnsi encoding; characters it can't represent become '?'
+function toPdfString(text: string): string {
+    let result = '(';
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (char === '(' || char === ')' || char === '\\') {
+            result += `\\${char}`;
+        } else if (code >= 32 && code <= 126) {
+            result += char;
+        } else if (code >= 160 && code <= 255) {
+            result += `\\${code.toString(8)}`;
+        } else {
+            result += '?';
+        }
+    }
+    return result + ')';
+}
+
+// PDF operators that paint a text object with font /F1. The content is y-flipped, so the
+// text matrix flips glyphs back upright.
+function getTextPdfOps(obj: TextObject): string {
+    const origin = obj.points[0];
+    const rotation = getTextRotation(obj);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const lines = getTextLines(obj).map((line, i) => {
+        const down = (TEXT_ASCENT + i * TEXT_LINE_HEIGHT) * obj.size;
+        const x = origin.x - sin * down;
+        const y = origin.y + cos * down;
+        return `${fmt(cos)} ${fmt(sin)} ${fmt(sin)} ${fmt(-cos)} ${fmt(x)} ${fmt(y)} Tm ${toPdfString(line)} Tj`;
+    });
+    return `${toPdfColor(obj.color)} rg\nBT /F1 ${fmt(obj.size)} Tf\n${lines.join('\n')}\nET`;
+}
+
+// Image XObject holding a JPEG copy of the image, hex-encoded to keep the file ASCII.
+// Transparent areas are flattened onto white. Null if the image hasn't loaded.
+function getPdfImageObject(obj: ImageObject): string | null {
+    const img = getLoadedImage(obj.src);
+    if (!img) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const imgCtx = canvas.getContext('2d')!;
+    imgCtx.fillStyle = '#FFFFFF';
+    imgCtx.fillRect(0, 0, canvas.width, canvas.height);
+    imgCtx.drawImage(img, 0, 0);
+
+    const bytes = atob(canvas.toDataURL('image/jpeg', 0.9).split(',')[1]);
+    let hex = '';
+    for (let i = 0; i < bytes.length; i++) {
+        hex += bytes.charCodeAt(i).toString(16).padStart(2, '0');
+    }
+    hex += '>';
+    return `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter [/ASCIIHexDecode /DCTDecode] /Length ${hex.length} >>\n` +
+        `stream\n${hex}\nendstream`;
+}
+
+// PDF operators that paint image XObject `name` over the image's corners. Image space
+// has its origin at the bottom-left, so the unit square is flipped onto the corners.
+function getImagePdfOps(obj: ImageObject, name: string): string {
+    const [a, b, c, d, e, f] = getImageMatrix(obj);
+    return `q ${[a, b, -c, -d, e + c, f + d].map(fmt).join(' ')} cm ${name} Do Q`;
+}
+
+// PDF operators that paint one stroke
+function getStrokePdfOps(stroke: Stroke): string {
+    if (isVariableWidth(stroke)) {
+        return `${toPdfColor(stroke.color)} rg\n${getOutlinePdfOps(stroke)}`;
+    }
+    const first = stroke.points[0];
+    const style = `${toPdfColor(stroke.color)} RG ${fmt(stroke.size)} w`;
+    if (stroke.points.length === 1) {
+        // Degenerate subpaths are painted as round dots when round caps are set
+        return `${style}\n${fmt(first.x)} ${fmt(first.y)} m ${fmt(first.x)} ${fmt(first.y)} l S`;
+    }
+    return `${style}\n${fmt(first.x)} ${fmt(first.y)} m ` +
+        getBezierSegments(stroke.points).map(({ cp1, cp2, to }) =>
+            `${fmt(cp1.x)} ${fmt(cp1.y)} ${fmt(cp2.x)} ${fmt(cp2.y)} ${fmt(to.x)} ${fmt(to.y)} c`
+        ).join(' ') +
+        ' S';
+}
+
+// Vector PDF export; one output pixel maps to one PDF point.
+// Layer opacity is applied per stroke, so overlapping strokes of a translucent layer
+// blend with each other (unlike PNG/SVG, which flatten the layer first).
+export function exportPDF(layers: LayerContent[], bounds: Bounds, options: ExportOptions): Blob {
+    const frame = getExportFrame(bounds, options);
+    const pageWidth = frame.width * options.scale;
+    const pageHeight = frame.height * options.scale;
+    const ops: string[] = [];
+
+    if (options.background) {
+        ops.push(`${toPdfColor(options.background)} rg 0 0 ${fmt(pageWidth)} ${fmt(pageHeight)} re f`);
+    }
+
+    // Map drawing coordinates onto the page, flipping y since PDF's origin is bottom-left
+    ops.push(
+        `${fmt(options.scale)} 0 0 ${fmt(-options.scale)} ` +
+        `${fmt(-frame.originX * options.scale)} ${fmt(pageHeight + frame.originY * options.scale)} cm`
+    );
+    ops.push('1 J 1 j');
+
+    // One graphics state per translucent layer (or image or ink color), selected with `gs` inside q/Q
+    const graphicsStates: string[] = [];
+    function addGraphicsState(opacity: number): string {
+        const name = `/GS${graphicsStates.length}`;
+        graphicsStates.push(`${name} << /ca ${fmt(opacity)} /CA ${fmt(opacity)} >>`);
+        return name;
+    }
+    // Each distinct image is embedded once
+    const imageObjects: string[] = [];
+    const imageNames = new Map<string, string>();
+    function getImageName(obj: ImageObject): string | null {
+        if (!imageNames.has(obj.src)) {
+            const body = getPdfImageObject(obj);
+            if (!body) return null;
+            imageNames.set(obj.src, `/Im${imageObjects.length}`);
+            imageObjects.push(body);
+        }
+        return imageNames.get(obj.src)!;
+    }
+
+    layers.forEach(({ layer, strokes }) => {
+        const drawn = strokes.filter(stroke => stroke.points.length > 0);
+        if (drawn.length === 0 || layer.opacity <= 0) return;
+        const translucent = layer.opacity < 1;
+        if (translucent) {
+            ops.push(`q ${addGraphicsState(layer.opacity)} gs`);
+        }
+        drawn.forEach(obj => {
+            if (obj.kind === 'image') {
+                const name = getImageName(obj);
+                if (!name) return;
+                // A graphics state replaces the layer's opacity rather than multiplying it
+                const opacity = layer.opacity * obj.opacity;
+                ops.push(opacity < layer.opacity
+                    ? `q ${addGraphicsState(opacity)} gs ${getImagePdfOps(obj, name)} Q`
+                    : getImagePdfOps(obj, name));
+            } else {
+                const objOps = obj.kind === 'text' ? getTextPdfOps(obj)
+                    : obj.kind === 'fill' ? getFillPdfOps(obj)
+                    : isShape(obj) ? getShapePdfOps(obj) : getStrokePdfOps(obj);
+                // Translucent ink, like translucent images, gets its own graphics state
+                const alpha = getColorAlpha(obj.color);
+                ops.push(alpha < 1 ? `q ${addGraphicsState(layer.opacity * alpha)} gs\n${objOps}\nQ` : objOps);
+            }
+        });
+        if (translucent) {
+            ops.push('Q');
+        }
+    });
+
+    const extGState = graphicsStates.length > 0 ? ` /ExtGState << ${graphicsStates.join(' ')} >>` : '';
+    const xObjects = imageObjects.length > 0
+        ? ` /XObject << ${imageObjects.map((_, i) => `/Im${i} ${i + 6} 0 R`).join(' ')} >>`
+        : '';
+    const resources = `<< /Font << /F1 5 0 R >>${extGState}${xObjects} >>`;
+    return buildPdf(pageWidth, pageHeight, ops.join('\n'), resources, imageObjects);
+}
+
+// Trigger a browser download for a generated file
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
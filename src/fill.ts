@@ -0,0 +1,216 @@
+import { pointInPolygon } from './geometry';
+import { simplifyPoints } from './smoothing';
+import type { Bounds, FillObject, Point } from './types';
+
+// Paint bucket: the area around a tap is found on a raster of the ink in view, then
+// traced back into outlines so the fill stays a vector object that survives zooming,
+// rotation and export.
+const MAX_CELLS = 2_000_000;     // raster size limit; zoomed-out views use coarser cells
+const GAP_TOLERANCE = 8;         // CSS px; gaps in the outline up to this wide are bridged
+const SIMPLIFY_TOLERANCE = 1;    // cells
+const MIN_RING_AREA = 4;         // cells; smaller outlines are raster noise
+
+// Raster over an area of the canvas. Cell (i, j) covers origin + [i, i + 1) * cellSize
+// horizontally and [j, j + 1) * cellSize vertically.
+export interface FillGrid {
+    origin: Point;
+    cellSize: number;   // canvas units
+    width: number;      // cells
+    height: number;
+}
+
+// Grid over `area` with about one cell per screen pixel at the view scale
+export function getFillGrid(area: Bounds, scale: number): FillGrid {
+    const areaWidth = Math.max(area.maxX - area.minX, 1e-6);
+    const areaHeight = Math.max(area.maxY - area.minY, 1e-6);
+    const cellSize = Math.max(1 / scale, Math.sqrt(areaWidth * areaHeight / MAX_CELLS));
+    return {
+        origin: { x: area.minX, y: area.minY },
+        cellSize,
+        width: Math.max(1, Math.ceil(areaWidth / cellSize)),
+        height: Math.max(1, Math.ceil(areaHeight / cellSize))
+    };
+}
+
+// Cells within `radius` cells of a set cell (a square neighbourhood), in two passes
+function dilate(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+    if (radius <= 0) return mask.slice();
+    const rows = new Uint8Array(mask.length);
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        let count = 0;
+        for (let x = 0; x < Math.min(radius, width); x++) count += mask[row + x];
+        for (let x = 0; x < width; x++) {
+            if (x + radius < width) count += mask[row + x + radius];
+            if (x - radius - 1 >= 0) count -= mask[row + x - radius - 1];
+            rows[row + x] = count > 0 ? 1 : 0;
+        }
+    }
+    const result = new Uint8Array(mask.length);
+    for (let x = 0; x < width; x++) {
+        let count = 0;
+        for (let y = 0; y < Math.min(radius, height); y++) count += rows[y * width + x];
+        for (let y = 0; y < height; y++) {
+            if (y + radius < height) count += rows[(y + radius) * width + x];
+            if (y - radius - 1 >= 0) count -= rows[(y - radius - 1) * width + x];
+            result[y * width + x] = count > 0 ? 1 : 0;
+        }
+    }
+    return result;
+}
+
+// Cells reachable from `seed` without crossing a wall, or null if the region runs off
+// the edge of the grid (it isn't enclosed)
+function floodFill(walls: Uint8Array, width: number, height: number, seed: number): Uint8Array | null {
+    const region = new Uint8Array(walls.length);
+    const stack = new Int32Array(walls.length);
+    let top = 0;
+    const visit = (i: number) => {
+        if (!walls[i] && !region[i]) {
+            region[i] = 1;
+            stack[top++] = i;
+        }
+    };
+    visit(seed);
+    while (top > 0) {
+        const i = stack[--top];
+        const x = i % width;
+        const y = (i - x) / width;
+        if (x === 0 || y === 0 || x === width - 1 || y === height - 1) return null;
+        visit(i - 1);
+        visit(i + 1);
+        visit(i - width);
+        visit(i + width);
+    }
+    return region;
+}
+
+// Steps along the cell edges: east, south, west, north (y points down)
+const STEP_X = [1, 0, -1, 0];
+const STEP_Y = [0, 1, 0, -1];
+
+// Outlines of the set cells, as corner points in cell units. Outer edges run clockwise
+// on screen and hole edges the other way; together they cover the region with the
+// even-odd rule.
+export function traceOutlines(region: Uint8Array, width: number, height: number): Point[][] {
+    const stride = width + 1;
+    // Bit d of out[v] is set while the edge leaving vertex v in direction d is untraced
+    const out = new Uint8Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (!region[i]) continue;
+            const v = y * stride + x;
+            if (y === 0 || !region[i - width]) out[v] |= 1;
+            if (x === width - 1 || !region[i + 1]) out[v + 1] |= 2;
+            if (y === height - 1 || !region[i + width]) out[v + stride + 1] |= 4;
+            if (x === 0 || !region[i - 1]) out[v + stride] |= 8;
+        }
+    }
+
+    const rings: Point[][] = [];
+    for (let start = 0; start < out.length; start++) {
+        while (out[start]) {
+            // The first untraced vertex in scan order is the top-left corner of its outline
+            const ring: Point[] = [{ x: start % stride, y: Math.floor(start / stride) }];
+            let v = start;
+            let d = out[start] & 1 ? 0 : out[start] & 2 ? 1 : out[start] & 4 ? 2 : 3;
+            for (;;) {
+                out[v] &= ~(1 << d);
+                v += STEP_X[d] + STEP_Y[d] * stride;
+                // Prefer turning right where two outlines touch at a corner
+                const next = [1, 0, 3].map(turn => (d + turn) % 4).find(dir => out[v] & (1 << dir));
+                if (next === undefined) break;
+                if (next !== d && v !== start) {
+                    ring.push({ x: v % stride, y: Math.floor(v / stride) });
+                }
+                d = next;
+            }
+            rings.push(ring);
+        }
+    }
+    return rings;
+}
+
+// Signed area of a closed polygon (shoelace formula)
+function getRingArea(ring: Point[]): number {
+    let area = 0;
+    ring.forEach((p, i) => {
+        const q = ring[(i + 1) % ring.length];
+        area += p.x * q.y - q.x * p.y;
+    });
+    return area / 2;
+}
+
+// Outlines (in canvas coordinates) of the area around `seed` that is enclosed by `ink`,
+// a raster of the ink on `grid`. Gaps narrower than GAP_TOLERANCE screen px are bridged,
+// and the area reaches in under the surrounding lines so no background shows along them.
+// Returns null if `seed` is on ink or the area isn't enclosed within the grid.
+export function findFillOutlines(ink: Uint8Array, grid: FillGrid, seed: Point, scale: number): Point[][] | null {
+    const { width, height, cellSize, origin } = grid;
+    const seedX = Math.floor((seed.x - origin.x) / cellSize);
+    const seedY = Math.floor((seed.y - origin.y) / cellSize);
+    if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return null;
+    const seedIndex = seedY * width + seedX;
+    if (ink[seedIndex]) return null;
+
+    // Areas too narrow to survive bridging the gaps are filled without it
+    const gap = Math.ceil(GAP_TOLERANCE / 2 / scale / cellSize);
+    let walls = dilate(ink, width, height, gap);
+    let reach = gap + 1;
+    if (walls[seedIndex]) {
+        walls = ink;
+        reach = 1;
+    }
+    const enclosed = floodFill(walls, width, height, seedIndex);
+    if (!enclosed) return null;
+
+    // Grow back over the wall cells the bridging took away, and a little under the ink
+    const grown = dilate(enclosed, width, height, reach);
+    const region = grown.map((cell, i) => cell && (enclosed[i] || walls[i]) ? 1 : 0);
+
+    return traceOutlines(region, width, height)
+        .filter(ring => Math.abs(getRingArea(ring)) >= MIN_RING_AREA)
+        .map(ring => {
+            const simplified = simplifyPoints([...ring, ring[0]], SIMPLIFY_TOLERANCE, 0).slice(0, -1);
+            return simplified.map(p => ({
+                x: Math.round((origin.x + p.x * cellSize) * 100) / 100,
+                y: Math.round((origin.y + p.y * cellSize) * 100) / 100
+            }));
+        })
+        .filter(ring => ring.length >= 3);
+}
+
+// Fill object from outlines returned by findFillOutlines
+export function createFillObject(id: string, layerId: string, color: string, outlines: Point[][]): FillObject {
+    return {
+        kind: 'fill',
+        id,
+        layerId,
+        color,
+        rings: outlines.map(ring => ring.length),
+        points: outlines.flat()
+    };
+}
+
+// A fill's outlines, split from its points
+export function getFillRings(fill: FillObject): Point[][] {
+    let start = 0;
+    return fill.rings.map(count => fill.points.slice(start, start += count));
+}
+
+// Whether `p` is inside a fill (and not in one of its holes)
+export function pointInFill(p: Point, fill: FillObject): boolean {
+    return getFillRings(fill).filter(ring => pointInPolygon(p, ring)).length % 2 === 1;
+}
+
+// Draw a fill, cutting out the holes between its outlines
+export function drawFill(ctx: CanvasRenderingContext2D, fill: FillObject) {
+    ctx.fillStyle = fill.color;
+    ctx.beginPath();
+    getFillRings(fill).forEach(ring => {
+        ring.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+    });
+    ctx.fill('evenodd');
+}
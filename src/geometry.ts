@@ -0,0 +1,165 @@
+import type { Bounds, Point } from './types';
+
+// Calculate distance between two points
+export function getDistance(p1: Point, p2: Point): number {
+    const dx = p2.x - p1.x;
+    const dy = p2.y - p1.y;
+    return Math.sqrt(dx * dx + dy * dy);
+}
+
+// Calculate angle between two points
+export function getAngle(p1: Point, p2: Point): number {
+    return Math.atan2(p2.y - p1.y, p2.x - p1.x);
+}
+
+// Get midpoint between two points
+export function getMidpoint(p1: Point, p2: Point): Point {
+    return {
+        x: (p1.x + p2.x) / 2,
+        y: (p1.y + p2.y) / 2
+    };
+}
+
+// Shortest distance from point p to segment ab
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return getDistance(p, a);
+
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return getDistance(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+// Whether segments ab and cd cross
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+    const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+// Shortest distance between segments ab and cd
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+    if (segmentsIntersect(a, b, c, d)) return 0;
+    return Math.min(
+        distanceToSegment(a, c, d),
+        distanceToSegment(b, c, d),
+        distanceToSegment(c, a, b),
+        distanceToSegment(d, a, b)
+    );
+}
+
+// Point a fraction t of the way from a to b, including any pressure/time samples
+export function lerpPoint(a: Point, b: Point, t: number): Point {
+    const p: Point = {
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t
+    };
+    if (a.pressure !== undefined && b.pressure !== undefined) {
+        p.pressure = a.pressure + (b.pressure - a.pressure) * t;
+    }
+    if (a.tilt !== undefined && b.tilt !== undefined) {
+        p.tilt = a.tilt + (b.tilt - a.tilt) * t;
+    }
+    if (a.t !== undefined && b.t !== undefined) {
+        p.t = a.t + (b.t - a.t) * t;
+    }
+    return p;
+}
+
+// Distance, angle and midpoint of a two-finger gesture
+export interface Pinch {
+    distance: number;
+    angle: number;
+    midpoint: Point;
+}
+
+export function measurePinch(p1: Point, p2: Point): Pinch {
+    return {
+        distance: getDistance(p1, p2),
+        angle: getAngle(p1, p2),
+        midpoint: getMidpoint(p1, p2)
+    };
+}
+
+// 2D affine transform in canvas setTransform order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export interface Matrix {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    e: number;
+    f: number;
+}
+
+export function applyMatrix(m: Matrix, p: Point): Point {
+    return {
+        x: m.a * p.x + m.c * p.y + m.e,
+        y: m.b * p.x + m.d * p.y + m.f
+    };
+}
+
+// Uniform scale factor of a similarity transform
+export function getMatrixScale(m: Matrix): number {
+    return Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+}
+
+// Transform that scales and rotates around `from`, then moves it to `to`
+export function getSimilarityMatrix(from: Point, to: Point, scale: number, rotation: number): Matrix {
+    const a = scale * Math.cos(rotation);
+    const b = scale * Math.sin(rotation);
+    return {
+        a,
+        b,
+        c: -b,
+        d: a,
+        e: to.x - (a * from.x - b * from.y),
+        f: to.y - (b * from.x + a * from.y)
+    };
+}
+
+// Whether p lies inside the polygon (even-odd rule)
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// Bounding box of all strokes' points, including their line width
+export function getStrokesBounds(strokes: { size: number; points: Point[] }[]): Bounds | null {
+    let bounds: Bounds | null = null;
+
+    strokes.forEach(stroke => {
+        const r = stroke.size / 2;
+        stroke.points.forEach(p => {
+            if (!bounds) {
+                bounds = { minX: p.x - r, minY: p.y - r, maxX: p.x + r, maxY: p.y + r };
+                return;
+            }
+            bounds.minX = Math.min(bounds.minX, p.x - r);
+            bounds.minY = Math.min(bounds.minY, p.y - r);
+            bounds.maxX = Math.max(bounds.maxX, p.x + r);
+            bounds.maxY = Math.max(bounds.maxY, p.y + r);
+        });
+    });
+
+    return bounds;
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+    return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+// Bounding box of a set of points grown by `margin` on every side
+export function getPointsBounds(points: Point[], margin = 0): Bounds | null {
+    return getStrokesBounds([{ size: margin * 2, points }]);
+}
@@ -0,0 +1,189 @@
+// Minimal animated GIF encoder: a single 256-color palette shared by every frame, LZW
+// compressed, looping forever. Good enough for drawings, which use few colors.
+
+const MAX_CODES = 4096;
+
+// Colors are bucketed to 5 bits per channel when building and applying the palette
+function getBucket(r: number, g: number, b: number): number {
+    return (r >> 3) << 10 | (g >> 3) << 5 | (b >> 3);
+}
+
+export interface GifPalette {
+    colors: Uint8Array;                 // 256 RGB triples
+    lookup: (bucket: number) => number; // bucket -> palette index
+}
+
+// Palette of the most common colors in an RGBA image (e.g. the finished drawing)
+export function createGifPalette(data: Uint8ClampedArray): GifPalette {
+    const counts = new Uint32Array(32768);
+    const sums = new Float64Array(32768 * 3);
+    for (let i = 0; i < data.length; i += 4) {
+        const bucket = getBucket(data[i], data[i + 1], data[i + 2]);
+        counts[bucket]++;
+        sums[bucket * 3] += data[i];
+        sums[bucket * 3 + 1] += data[i + 1];
+        sums[bucket * 3 + 2] += data[i + 2];
+    }
+    const used = [...counts.keys()].filter(bucket => counts[bucket] > 0)
+        .sort((a, b) => counts[b] - counts[a])
+        .slice(0, 256);
+
+    const colors = new Uint8Array(256 * 3);
+    used.forEach((bucket, i) => {
+        colors[i * 3] = Math.round(sums[bucket * 3] / counts[bucket]);
+        colors[i * 3 + 1] = Math.round(sums[bucket * 3 + 1] / counts[bucket]);
+        colors[i * 3 + 2] = Math.round(sums[bucket * 3 + 2] / counts[bucket]);
+    });
+
+    // Nearest palette color of each bucket, worked out the first time it is needed
+    const nearest = new Int16Array(32768).fill(-1);
+    const lookup = (bucket: number) => {
+        if (nearest[bucket] === -1) {
+            const r = (bucket >> 10) << 3 | 4;
+            const g = (bucket >> 5 & 31) << 3 | 4;
+            const b = (bucket & 31) << 3 | 4;
+            let best = 0;
+            let bestDistance = Infinity;
+            for (let i = 0; i < Math.max(1, used.length); i++) {
+                const dr = colors[i * 3] - r;
+                const dg = colors[i * 3 + 1] - g;
+                const db = colors[i * 3 + 2] - b;
+                const distance = dr * dr + dg * dg + db * db;
+                if (distance < bestDistance) {
+                    best = i;
+                    bestDistance = distance;
+                }
+            }
+            nearest[bucket] = best;
+        }
+        return nearest[bucket];
+    };
+    return { colors, lookup };
+}
+
+// Growable byte buffer
+function createByteWriter() {
+    let bytes = new Uint8Array(1 << 16);
+    let length = 0;
+
+    function byte(value: number) {
+        if (length === bytes.length) {
+            const grown = new Uint8Array(bytes.length * 2);
+            grown.set(bytes);
+            bytes = grown;
+        }
+        bytes[length++] = value;
+    }
+
+    return {
+        byte,
+        bytes: (values: ArrayLike<number>) => {
+            for (let i = 0; i < values.length; i++) byte(values[i]);
+        },
+        uint16: (value: number) => {
+            byte(value & 0xff);
+            byte(value >> 8 & 0xff);
+        },
+        text: (value: string) => {
+            for (let i = 0; i < value.length; i++) byte(value.charCodeAt(i));
+        },
+        getBytes: () => bytes.slice(0, length)
+    };
+}
+
+// LZW-compress 8-bit palette indices as GIF image data (code size and sub-blocks)
+function writeImageData(out: ReturnType<typeof createByteWriter>, indices: Uint8Array) {
+    const clearCode = 256;
+    const endCode = 257;
+    const packed = createByteWriter();
+    let codeSize = 9;
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            packed.byte(bitBuffer & 0xff);
+            bitBuffer >>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    let table = new Map<number, number>();
+    let nextCode = endCode + 1;
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = prefix << 8 | indices[i];
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === MAX_CODES) {
+            // Table full: start over
+            emit(clearCode);
+            table = new Map();
+            nextCode = endCode + 1;
+            codeSize = 9;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = indices[i];
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) packed.byte(bitBuffer & 0xff);
+
+    out.byte(8);  // minimum code size
+    const data = packed.getBytes();
+    for (let i = 0; i < data.length; i += 255) {
+        const block = data.subarray(i, i + 255);
+        out.byte(block.length);
+        out.bytes(block);
+    }
+    out.byte(0);
+}
+
+export function createGifEncoder(width: number, height: number, palette: GifPalette) {
+    const out = createByteWriter();
+    out.text('GIF89a');
+    out.uint16(width);
+    out.uint16(height);
+    out.byte(0xf7);  // global color table of 256 entries
+    out.byte(0);     // background color index
+    out.byte(0);     // square pixels
+    out.bytes(palette.colors);
+    // Loop forever
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.text('NETSCAPE2.0');
+    out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    // Add an RGBA frame shown for `delay` ms (GIF delays are in hundredths of a second)
+    function addFrame(data: Uint8ClampedArray, delay: number) {
+        out.bytes([0x21, 0xf9, 0x04, 0x04]);  // graphic control: keep the frame in place
+        out.uint16(Math.max(2, Math.round(delay / 10)));
+        out.bytes([0x00, 0x00]);
+        out.byte(0x2c);  // image descriptor covering the whole screen
+        out.uint16(0);
+        out.uint16(0);
+        out.uint16(width);
+        out.uint16(height);
+        out.byte(0);
+
+        const indices = new Uint8Array(width * height);
+        for (let i = 0; i < indices.length; i++) {
+            indices[i] = palette.lookup(getBucket(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]));
+        }
+        writeImageData(out, indices);
+    }
+
+    function finish(): Blob {
+        out.byte(0x3b);
+        return new Blob([out.getBytes()], { type: 'image/gif' });
+    }
+
+    return { addFrame, finish };
+}
@@ -0,0 +1,162 @@
+import type { Bounds, Point } from './types';
+
+// Background drawn behind the drawing, in canvas space so it pans, zooms and rotates with it.
+// It is only a guide: it isn't saved with the drawing or exported.
+export type GridType = 'blank' | 'square' | 'dots' | 'lined' | 'isometric';
+
+export const GRID_TYPES: { id: GridType; label: string }[] = [
+    { id: 'blank', label: 'Blank' },
+    { id: 'square', label: 'Grid' },
+    { id: 'dots', label: 'Dots' },
+    { id: 'lined', label: 'Lined' },
+    { id: 'isometric', label: 'Isometric' },
+];
+
+// Limits of the grid size setting, in canvas units
+export const MIN_GRID_SIZE = 5;
+export const MAX_GRID_SIZE = 200;
+
+const MIN_SPACING = 10;          // CSS px; closer lines are thinned out
+const MAJOR_EVERY = 5;           // every fifth square grid line is darker
+const MINOR_COLOR = '#E4E4E4';
+const MAJOR_COLOR = '#C8C8C8';
+const DOT_COLOR = '#B0B0B0';
+const LINED_MARGIN_COLOR = '#F0B0B0';
+const ISOMETRIC_SLOPE = Math.tan(Math.PI / 6);
+
+// Lines are thinned out (or filled in) by this factor as the view zooms
+function getSubdivisions(type: GridType): number {
+    return type === 'isometric' ? 2 : MAJOR_EVERY;
+}
+
+// Spacing of the grid at a view scale: the set size, multiplied or divided by whole
+// subdivisions so lines stay between MIN_SPACING and that many times it apart on screen
+export function getGridSpacing(type: GridType, size: number, scale: number): number {
+    const factor = getSubdivisions(type);
+    let spacing = size;
+    while (spacing * scale < MIN_SPACING) {
+        spacing *= factor;
+    }
+    while (spacing / factor * scale >= MIN_SPACING) {
+        spacing /= factor;
+    }
+    return spacing;
+}
+
+// Width between the vertical lines of an isometric grid whose slanted lines are `spacing` apart vertically
+function getIsometricWidth(spacing: number): number {
+    return spacing * Math.sqrt(3) / 2;
+}
+
+// Draw lines y = slope * x + k * spacing across `bounds`
+function drawSlantedLines(ctx: CanvasRenderingContext2D, slope: number, spacing: number, bounds: Bounds) {
+    const offsets = [
+        bounds.minY - slope * bounds.minX, bounds.minY - slope * bounds.maxX,
+        bounds.maxY - slope * bounds.minX, bounds.maxY - slope * bounds.maxX
+    ];
+    const first = Math.floor(Math.min(...offsets) / spacing);
+    const last = Math.ceil(Math.max(...offsets) / spacing);
+    for (let k = first; k <= last; k++) {
+        ctx.moveTo(bounds.minX, slope * bounds.minX + k * spacing);
+        ctx.lineTo(bounds.maxX, slope * bounds.maxX + k * spacing);
+    }
+}
+
+// Draw the grid over `bounds` (the view, in canvas units). `ctx` has the view transform applied.
+export function drawGrid(ctx: CanvasRenderingContext2D, type: GridType, spacing: number, bounds: Bounds, scale: number) {
+    if (type === 'blank') return;
+    ctx.save();
+    const lineWidth = 1 / scale;
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'butt';
+
+    if (type === 'square') {
+        const firstX = Math.floor(bounds.minX / spacing);
+        const firstY = Math.floor(bounds.minY / spacing);
+        [false, true].forEach(major => {
+            ctx.beginPath();
+            for (let i = firstX; i * spacing <= bounds.maxX; i++) {
+                if ((i % MAJOR_EVERY === 0) !== major) continue;
+                ctx.moveTo(i * spacing, bounds.minY);
+                ctx.lineTo(i * spacing, bounds.maxY);
+            }
+            for (let j = firstY; j * spacing <= bounds.maxY; j++) {
+                if ((j % MAJOR_EVERY === 0) !== major) continue;
+                ctx.moveTo(bounds.minX, j * spacing);
+                ctx.lineTo(bounds.maxX, j * spacing);
+            }
+            ctx.strokeStyle = major ? MAJOR_COLOR : MINOR_COLOR;
+            ctx.stroke();
+        });
+    } else if (type === 'dots') {
+        const radius = 1.5 / scale;
+        ctx.beginPath();
+        for (let i = Math.floor(bounds.minX / spacing); i * spacing <= bounds.maxX; i++) {
+            for (let j = Math.floor(bounds.minY / spacing); j * spacing <= bounds.maxY; j++) {
+                ctx.rect(i * spacing - radius, j * spacing - radius, radius * 2, radius * 2);
+            }
+        }
+        ctx.fillStyle = DOT_COLOR;
+        ctx.fill();
+    } else if (type === 'lined') {
+        ctx.beginPath();
+        for (let j = Math.floor(bounds.minY / spacing); j * spacing <= bounds.maxY; j++) {
+            ctx.moveTo(bounds.minX, j * spacing);
+            ctx.lineTo(bounds.maxX, j * spacing);
+        }
+        ctx.strokeStyle = MAJOR_COLOR;
+        ctx.stroke();
+        // Margin line, like on writing paper
+        if (bounds.minX <= 0 && bounds.maxX >= 0) {
+            ctx.beginPath();
+            ctx.moveTo(0, bounds.minY);
+            ctx.lineTo(0, bounds.maxY);
+            ctx.strokeStyle = LINED_MARGIN_COLOR;
+            ctx.lineWidth = lineWidth * 2;
+            ctx.stroke();
+        }
+    } else {
+        const width = getIsometricWidth(spacing);
+        ctx.beginPath();
+        for (let i = Math.floor(bounds.minX / width); i * width <= bounds.maxX; i++) {
+            ctx.moveTo(i * width, bounds.minY);
+            ctx.lineTo(i * width, bounds.maxY);
+        }
+        drawSlantedLines(ctx, ISOMETRIC_SLOPE, spacing, bounds);
+        drawSlantedLines(ctx, -ISOMETRIC_SLOPE, spacing, bounds);
+        ctx.strokeStyle = MINOR_COLOR;
+        ctx.stroke();
+    }
+    ctx.restore();
+}
+
+// Nearest grid point to `p` (canvas units). Lined paper only snaps to its lines.
+export function snapToGrid(type: GridType, spacing: number, p: Point): Point {
+    const snap = (value: number, step: number) => Math.round(value / step) * step;
+    switch (type) {
+        case 'blank':
+            return p;
+        case 'lined':
+            return { ...p, y: snap(p.y, spacing) };
+        case 'square':
+        case 'dots':
+            return { ...p, x: snap(p.x, spacing), y: snap(p.y, spacing) };
+        case 'isometric': {
+            // Points of the lattice lie on the vertical lines, half a spacing higher on each
+            const width = getIsometricWidth(spacing);
+            const column = Math.round(p.x / width);
+            let best = p;
+            let bestDistance = Infinity;
+            for (let i = column - 1; i <= column + 1; i++) {
+                const shift = i * spacing / 2;
+                const candidate = { x: i * width, y: snap(p.y - shift, spacing) + shift };
+                const distance = Math.hypot(candidate.x - p.x, candidate.y - p.y);
+                if (distance < bestDistance) {
+                    best = candidate;
+                    bestDistance = distance;
+                }
+            }
+            return { ...p, x: best.x, y: best.y };
+        }
+    }
+}
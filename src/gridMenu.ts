@@ -0,0 +1,160 @@
+import { GRID_TYPES, MAX_GRID_SIZE, MIN_GRID_SIZE } from './grid';
+import type { Settings } from './settings';
+
+interface GridMenuOptions {
+    getSettings: () => Settings;
+    onChange: (settings: Settings) => void;
+}
+
+export function createGridMenu(
+    triggerElement: HTMLElement,
+    options: GridMenuOptions
+) {
+    let popup: HTMLElement | null = null;
+
+    function update(changes: Partial<Settings>) {
+        options.onChange({ ...options.getSettings(), ...changes });
+        renderPopup();
+    }
+
+    function createRow(label: string) {
+        const row = document.createElement('label');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            color: #fff;
+            font-size: 13px;
+        `;
+        row.append(label);
+        return row;
+    }
+
+    // (Re)build the popup contents from the current settings
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+        const settings = options.getSettings();
+
+        const types = document.createElement('div');
+        types.style.cssText = `
+            display: grid;
+            grid-template-columns: repeat(3, 1fr);
+            gap: 4px;
+        `;
+        GRID_TYPES.forEach(({ id, label }) => {
+            const button = document.createElement('button');
+            button.textContent = label;
+            button.style.cssText = `
+                padding: 6px 0;
+                font-size: 12px;
+                color: #fff;
+                background: ${id === settings.gridType ? '#4a90d9' : '#444'};
+            `;
+            button.addEventListener('click', () => update({ gridType: id }));
+            types.appendChild(button);
+        });
+        popup.appendChild(types);
+
+        const sizeRow = createRow('Size');
+        const slider = document.createElement('input');
+        slider.type = 'range';
+        slider.min = String(MIN_GRID_SIZE);
+        slider.max = String(MAX_GRID_SIZE);
+        slider.step = '5';
+        slider.value = String(settings.gridSize);
+        slider.style.flex = '1';
+        const text = document.createElement('span');
+        text.textContent = String(settings.gridSize);
+        text.style.cssText = `
+            width: 32px;
+            text-align: right;
+            color: #aaa;
+        `;
+        slider.addEventListener('input', () => {
+            text.textContent = slider.value;
+            options.onChange({ ...options.getSettings(), gridSize: Number(slider.value) });
+        });
+        sizeRow.appendChild(slider);
+        sizeRow.appendChild(text);
+        sizeRow.title = 'Canvas units between lines; lines thin out as you zoom out';
+        popup.appendChild(sizeRow);
+
+        const checkboxes: [string, keyof Settings, boolean][] = [
+            ['Rulers', 'showRulers', settings.showRulers],
+            ['Snap to grid', 'snapToGrid', settings.snapToGrid],
+        ];
+        checkboxes.forEach(([label, key, checked]) => {
+            const row = createRow('');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.checked = checked;
+            checkbox.addEventListener('change', () => update({ [key]: checkbox.checked }));
+            row.appendChild(checkbox);
+            row.append(label);
+            popup!.appendChild(row);
+        });
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            width: 220px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+        div.addEventListener('click', e => e.stopPropagation());
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${Math.max(4, Math.min(rect.left, window.innerWidth - popup.offsetWidth - 4))}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        renderPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+}
@@ -0,0 +1,118 @@
+// An undoable change to the drawing
+export interface Command {
+    label: string;
+    apply(): void;
+    revert(): void;
+}
+
+export function createHistory(
+    limit: number,
+    onChange: () => void
+) {
+    const undoStack: Command[] = [];
+    const redoStack: Command[] = [];
+
+    // Apply a command and make it undoable; any redo branch is discarded
+    function execute(command: Command) {
+        command.apply();
+        undoStack.push(command);
+        if (undoStack.length > limit) {
+            undoStack.shift();
+        }
+        redoStack.length = 0;
+        onChange();
+    }
+
+    // Register a command whose effect has already been applied (e.g. live edits during a gesture)
+    function record(command: Command) {
+        undoStack.push(command);
+        if (undoStack.length > limit) {
+            undoStack.shift();
+        }
+        redoStack.length = 0;
+        onChange();
+    }
+
+    function undo() {
+        const command = undoStack.pop();
+        if (!command) return;
+        command.revert();
+        redoStack.push(command);
+        onChange();
+    }
+
+    function redo() {
+        const command = redoStack.pop();
+        if (!command) return;
+        command.apply();
+        undoStack.push(command);
+        onChange();
+    }
+
+    // Forget all commands without touching the list (e.g. when switching drawings)
+    function clear() {
+        undoStack.length = 0;
+        redoStack.length = 0;
+    }
+
+    return {
+        execute,
+        record,
+        undo,
+        redo,
+        clear,
+        canUndo: () => undoStack.length > 0,
+        canRedo: () => redoStack.length > 0
+    };
+}
+
+// Several commands undone and redone as one step
+export function createCompoundCommand(label: string, commands: Command[]): Command {
+    return {
+        label,
+        apply: () => commands.forEach(command => command.apply()),
+        revert: () => commands.slice().reverse().forEach(command => command.revert())
+    };
+}
+
+interface ListEntry<T> {
+    item: T;
+    index: number;
+}
+
+// Remove entries by identity, then insert others at their recorded indices
+function spliceList<T>(list: T[], remove: ListEntry<T>[], insert: ListEntry<T>[]) {
+    const removeSet = new Set(remove.map(e => e.item));
+    for (let i = list.length - 1; i >= 0; i--) {
+        if (removeSet.has(list[i])) {
+            list.splice(i, 1);
+        }
+    }
+    insert.forEach(e => {
+        list.splice(Math.min(e.index, list.length), 0, e.item);
+    });
+}
+
+// Command that turns `before` into `after`. Items are matched by identity, so only the
+// items that were added or removed are touched and other edits to the list survive.
+export function createEditCommand<T extends object>(
+    getList: () => T[],
+    label: string,
+    before: T[],
+    after: T[]
+): Command {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    const removed = before
+        .map((item, index) => ({ item, index }))
+        .filter(e => !afterSet.has(e.item));
+    const added = after
+        .map((item, index) => ({ item, index }))
+        .filter(e => !beforeSet.has(e.item));
+
+    return {
+        label,
+        apply: () => spliceList(getList(), removed, added),
+        revert: () => spliceList(getList(), added, removed)
+    };
+}
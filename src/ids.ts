@@ -0,0 +1,7 @@
+// Generate a reasonably unique id (crypto.randomUUID is unavailable on insecure origins)
+export function createId(): string {
+    if (typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
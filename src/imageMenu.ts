@@ -0,0 +1,202 @@
+import type { ImageObject } from './types';
+
+interface ImageMenuOptions {
+    onImport: (files: File[]) => void;
+    getBackground: () => ImageObject | null;
+    onBackgroundOpacity: (opacity: number, final: boolean) => void;  // final once the slider is released
+    onUnlockBackground: () => void;
+    onRemoveBackground: () => void;
+}
+
+export function createImageMenu(
+    triggerElement: HTMLElement,
+    options: ImageMenuOptions
+) {
+    let popup: HTMLElement | null = null;
+
+    // Hidden file input behind "Import image…"
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = 'image/*';
+    fileInput.multiple = true;
+    fileInput.hidden = true;
+    document.body.appendChild(fileInput);
+    fileInput.addEventListener('change', () => {
+        const files = Array.from(fileInput.files ?? []);
+        fileInput.value = '';
+        if (files.length > 0) {
+            options.onImport(files);
+        }
+    });
+
+    function createActionButton(label: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 8px 4px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function createBackgroundSection(background: ImageObject | null) {
+        const section = document.createElement('div');
+        section.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding-top: 6px;
+            border-top: 1px solid #444;
+            color: #aaa;
+            font-size: 12px;
+        `;
+        section.append('Background');
+
+        if (!background) {
+            const hint = document.createElement('div');
+            hint.textContent = 'Select an image and choose "Use as background" to lock it as a tracing reference.';
+            hint.style.lineHeight = '1.4';
+            section.appendChild(hint);
+            return section;
+        }
+
+        const row = document.createElement('div');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        `;
+        const slider = document.createElement('input');
+        slider.type = 'range';
+        slider.min = '0';
+        slider.max = '100';
+        slider.value = String(Math.round(background.opacity * 100));
+        slider.style.flex = '1';
+        const percent = document.createElement('span');
+        percent.textContent = `${slider.value}%`;
+        percent.style.width = '36px';
+        slider.addEventListener('input', () => {
+            percent.textContent = `${slider.value}%`;
+            options.onBackgroundOpacity(Number(slider.value) / 100, false);
+        });
+        slider.addEventListener('change', () => {
+            options.onBackgroundOpacity(Number(slider.value) / 100, true);
+        });
+        slider.addEventListener('click', e => e.stopPropagation());
+        row.append('Opacity');
+        row.appendChild(slider);
+        row.appendChild(percent);
+        section.appendChild(row);
+
+        const buttons = document.createElement('div');
+        buttons.style.cssText = `
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 6px;
+        `;
+        buttons.appendChild(createActionButton('Unlock', () => {
+            options.onUnlockBackground();
+            closePopup();
+        }));
+        buttons.appendChild(createActionButton('Remove', () => {
+            options.onRemoveBackground();
+            closePopup();
+        }));
+        section.appendChild(buttons);
+        return section;
+    }
+
+    // (Re)build the popup contents
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+
+        const importButton = createActionButton('Import image…', () => {
+            closePopup();
+            fileInput.click();
+        });
+        importButton.style.background = '#4a90d9';
+        popup.appendChild(importButton);
+
+        const hint = document.createElement('div');
+        hint.textContent = 'You can also drop or paste images onto the canvas.';
+        hint.style.cssText = `
+            color: #aaa;
+            font-size: 12px;
+        `;
+        popup.appendChild(hint);
+        popup.appendChild(createBackgroundSection(options.getBackground()));
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            width: 240px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${rect.left}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        renderPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+
+    return {
+        // Call after the background image changes
+        refresh: renderPopup
+    };
+}
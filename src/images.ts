@@ -0,0 +1,111 @@
+import { createId } from './ids';
+import type { DrawingObject, ImageObject, Point } from './types';
+
+// Imported images larger than this (in pixels, either side) are scaled down
+const MAX_IMAGE_SIZE = 2048;
+// Formats kept as they are; anything else is re-encoded as PNG
+const KEPT_TYPES = ['image/png', 'image/jpeg'];
+
+export interface ImportedImage {
+    src: string;      // data URL
+    width: number;    // in pixels
+    height: number;
+}
+
+// Decoded images by data URL, shared by every renderer
+const cache = new Map<string, HTMLImageElement>();
+let loadListener: (() => void) | null = null;
+
+// Called whenever an image finishes decoding, so the canvas can be redrawn with it
+export function setImageLoadListener(listener: () => void) {
+    loadListener = listener;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('The image could not be decoded.'));
+        img.src = src;
+    });
+}
+
+// The decoded image, or null while it is still loading (loading starts on first use)
+export function getLoadedImage(src: string): HTMLImageElement | null {
+    const cached = cache.get(src);
+    if (cached) {
+        return cached.complete && cached.naturalWidth > 0 ? cached : null;
+    }
+    const img = new Image();
+    img.onload = () => loadListener?.();
+    img.src = src;
+    cache.set(src, img);
+    return null;
+}
+
+function readAsDataURL(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('The file could not be read.'));
+        reader.readAsDataURL(file);
+    });
+}
+
+// Read an image file into a data URL, scaling it down if it is very large
+export async function readImageFile(file: Blob): Promise<ImportedImage> {
+    const url = URL.createObjectURL(file);
+    let img: HTMLImageElement;
+    try {
+        img = await loadImage(url);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    if (scale === 1 && KEPT_TYPES.includes(file.type)) {
+        return { src: await readAsDataURL(file), width, height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(img, 0, 0, width, height);
+    const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    return { src: canvas.toDataURL(type, 0.9), width, height };
+}
+
+// Image object filling the given corners (clockwise from the image's top-left)
+export function createImageObject(layerId: string, src: string, corners: Point[]): ImageObject {
+    return { kind: 'image', id: createId(), layerId, src, opacity: 1, background: false, points: corners };
+}
+
+// Affine matrix [a, b, c, d, e, f] mapping the unit square onto the image's corners,
+// with (0, 0) at its top-left and (1, 1) at its bottom-right
+export function getImageMatrix(obj: ImageObject): number[] {
+    const [topLeft, topRight, , bottomLeft] = obj.points;
+    return [
+        topRight.x - topLeft.x, topRight.y - topLeft.y,
+        bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y,
+        topLeft.x, topLeft.y
+    ];
+}
+
+// Draw an image; nothing is drawn until it has loaded
+export function drawImageObject(ctx: CanvasRenderingContext2D, obj: ImageObject) {
+    const img = getLoadedImage(obj.src);
+    if (!img) return;
+    const [a, b, c, d, e, f] = getImageMatrix(obj);
+    ctx.save();
+    ctx.transform(a, b, c, d, e, f);
+    ctx.scale(1 / img.naturalWidth, 1 / img.naturalHeight);
+    ctx.globalAlpha *= obj.opacity;
+    ctx.drawImage(img, 0, 0);
+    ctx.restore();
+}
+
+export function isBackgroundImage(obj: DrawingObject): obj is ImageObject {
+    return obj.kind === 'image' && obj.background;
+}
@@ -0,0 +1,55 @@
+import type { DrawingObject, Layer } from './types';
+
+// Id of the single layer that documents created before layers existed are given
+export const DEFAULT_LAYER_ID = 'layer-1';
+
+// A visible layer together with its strokes and shapes, in drawing order
+export interface LayerContent {
+    layer: Layer;
+    strokes: DrawingObject[];
+}
+
+// Stand-in layer for background images, listed first by getVisibleLayerContents so the
+// reference sits beneath every layer rather than covering the ones below its own
+export const BACKGROUND_LAYER: Layer = { id: '', name: 'Background', visible: true, locked: true, opacity: 1 };
+
+export function createLayer(id: string, name: string): Layer {
+    return { id, name, visible: true, locked: false, opacity: 1 };
+}
+
+// Visible layers with their strokes, bottom to top. Images come first in each layer,
+// then fills, so they render beneath its strokes. A background image on a visible layer
+// is taken out of it and drawn beneath all of them, under a BACKGROUND_LAYER stand-in
+// that carries the owning layer's opacity.
+export function getVisibleLayerContents(layers: Layer[], strokes: DrawingObject[]): LayerContent[] {
+    const visible = layers.filter(layer => layer.visible);
+    const isBackground = (obj: DrawingObject) => obj.kind === 'image' && obj.background;
+    const background = visible
+        .map(layer => ({
+            layer: { ...BACKGROUND_LAYER, opacity: layer.opacity },
+            strokes: strokes.filter(obj => isBackground(obj) && obj.layerId === layer.id)
+        }))
+        .filter(content => content.strokes.length > 0);
+    const contents = visible.map(layer => {
+        const own = strokes.filter(stroke => stroke.layerId === layer.id && !isBackground(stroke));
+        return {
+            layer,
+            strokes: [
+                ...own.filter(obj => obj.kind === 'image'),
+                ...own.filter(obj => obj.kind === 'fill'),
+                ...own.filter(obj => obj.kind !== 'image' && obj.kind !== 'fill')
+            ]
+        };
+    });
+    return [...background, ...contents];
+}
+
+// First "Layer N" name not already taken
+export function getNextLayerName(layers: Layer[]): string {
+    const names = new Set(layers.map(layer => layer.name));
+    let n = layers.length + 1;
+    while (names.has(`Layer ${n}`)) {
+        n++;
+    }
+    return `Layer ${n}`;
+}
@@ -0,0 +1,228 @@
+import type { Layer } from './types';
+
+interface LayersPanelOptions {
+    getLayers: () => Layer[];
+    getActiveLayerId: () => string;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    onRename: (id: string, name: string) => void;
+    onMove: (id: string, offset: number) => void;  // +1 moves the layer up (drawn later)
+    onToggleVisible: (id: string) => void;
+    onToggleLocked: (id: string) => void;
+    onOpacity: (id: string, opacity: number, final: boolean) => void;  // final once the slider is released
+    onDelete: (id: string) => void;
+}
+
+export function createLayersPanel(
+    triggerElement: HTMLElement,
+    options: LayersPanelOptions
+) {
+    let popup: HTMLElement | null = null;
+
+    // Show the active layer's name on the trigger
+    function updateTrigger() {
+        const active = options.getLayers().find(layer => layer.id === options.getActiveLayerId());
+        triggerElement.textContent = active ? `Layer: ${active.name}` : 'Layers';
+        triggerElement.title = active ? active.name : '';
+    }
+
+    function createActionButton(label: string, title: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.title = title;
+        button.style.cssText = `
+            padding: 4px 8px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function createRow(layer: Layer, index: number, count: number) {
+        const row = document.createElement('div');
+        const isActive = layer.id === options.getActiveLayerId();
+        row.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding: 6px;
+            border: 2px solid ${isActive ? '#fff' : '#444'};
+            border-radius: 4px;
+            background: ${isActive ? '#555' : '#333'};
+        `;
+
+        const top = document.createElement('div');
+        top.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        `;
+        const visibleButton = createActionButton(layer.visible ? '👁' : '–', layer.visible ? 'Hide' : 'Show', () => {
+            options.onToggleVisible(layer.id);
+        });
+        const lockButton = createActionButton(layer.locked ? '🔒' : '🔓', layer.locked ? 'Unlock' : 'Lock', () => {
+            options.onToggleLocked(layer.id);
+        });
+        const name = document.createElement('div');
+        name.textContent = layer.name;
+        name.style.cssText = `
+            flex: 1;
+            min-width: 0;
+            font-size: 14px;
+            color: ${layer.visible ? '#fff' : '#999'};
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            cursor: pointer;
+        `;
+        name.addEventListener('click', (e) => {
+            e.stopPropagation();
+            if (!isActive) {
+                options.onSelect(layer.id);
+            }
+        });
+        const upButton = createActionButton('↑', 'Move up', () => options.onMove(layer.id, 1));
+        upButton.disabled = index === count - 1;
+        const downButton = createActionButton('↓', 'Move down', () => options.onMove(layer.id, -1));
+        downButton.disabled = index === 0;
+        [visibleButton, lockButton, name, upButton, downButton].forEach(el => top.appendChild(el));
+
+        const bottom = document.createElement('div');
+        bottom.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            color: #aaa;
+            font-size: 12px;
+        `;
+        const slider = document.createElement('input');
+        slider.type = 'range';
+        slider.min = '0';
+        slider.max = '100';
+        slider.value = String(Math.round(layer.opacity * 100));
+        slider.style.flex = '1';
+        const percent = document.createElement('span');
+        percent.textContent = `${slider.value}%`;
+        percent.style.width = '36px';
+        slider.addEventListener('input', () => {
+            percent.textContent = `${slider.value}%`;
+            options.onOpacity(layer.id, Number(slider.value) / 100, false);
+        });
+        slider.addEventListener('change', () => {
+            options.onOpacity(layer.id, Number(slider.value) / 100, true);
+        });
+        slider.addEventListener('click', e => e.stopPropagation());
+        const renameButton = createActionButton('Rename', 'Rename layer', () => {
+            const newName = window.prompt('Rename layer', layer.name)?.trim();
+            if (newName && newName !== layer.name) {
+                options.onRename(layer.id, newName);
+            }
+        });
+        const deleteButton = createActionButton('Delete', 'Delete layer and its strokes', () => {
+            options.onDelete(layer.id);
+        });
+        deleteButton.disabled = count === 1;
+        bottom.append('Opacity');
+        [slider, percent, renameButton, deleteButton].forEach(el => bottom.appendChild(el));
+
+        row.appendChild(top);
+        row.appendChild(bottom);
+        return row;
+    }
+
+    // (Re)build the popup contents; the topmost layer is listed first
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+
+        const addButton = createActionButton('Add layer', 'Add a layer above the active one', () => {
+            options.onAdd();
+        });
+        addButton.style.background = '#4a90d9';
+        addButton.style.padding = '8px 4px';
+        popup.appendChild(addButton);
+
+        const layers = options.getLayers();
+        for (let i = layers.length - 1; i >= 0; i--) {
+            popup.appendChild(createRow(layers[i], i, layers.length));
+        }
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            width: 320px;
+            max-height: 60vh;
+            overflow-y: auto;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${rect.left}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        renderPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+
+    updateTrigger();
+
+    return {
+        // Call after the layers or the active layer change
+        refresh: () => {
+            updateTrigger();
+            renderPopup();
+        }
+    };
+}
@@ -0,0 +1,151 @@
+import { getPointsBounds } from './geometry';
+import type { LayerContent } from './layers';
+import { createRenderCache } from './renderCache';
+import { drawLayer } from './strokeRenderer';
+import type { Bounds, Point } from './types';
+
+// Blank space around the drawing, as a fraction of the mapped area
+const MAP_PADDING = 0.1;
+// The mapped area is kept (so the map doesn't jump while panning) until it no longer
+// covers the drawing and the view, or they fill less than this fraction of it
+const MIN_AREA_FILL = 0.25;
+
+interface MinimapOptions {
+    getLayers: () => LayerContent[];  // visible layers only
+    onNavigate: (canvasPos: Point, animate: boolean) => void;  // center the view on a canvas point
+}
+
+// Overview of the whole drawing with the visible area outlined. Tapping or dragging
+// on it moves the view there.
+export function createMinimap(
+    mapCanvas: HTMLCanvasElement,
+    options: MinimapOptions
+) {
+    const ctx = mapCanvas.getContext('2d')!;
+    const contentCache = createRenderCache();
+    const scratch = document.createElement('canvas');
+    let area: Bounds | null = null;     // canvas-space area shown on the map
+    let mapScale = 1;                  // map CSS pixels per canvas unit
+    let mapWidth = 0;                  // map size in CSS pixels
+    let mapHeight = 0;
+    let dragPointerId: number | null = null;
+
+    function toMapPoint(p: Point): Point {
+        return { x: (p.x - area!.minX) * mapScale, y: (p.y - area!.minY) * mapScale };
+    }
+
+    function toCanvasPoint(mapPos: Point): Point {
+        return { x: mapPos.x / mapScale + area!.minX, y: mapPos.y / mapScale + area!.minY };
+    }
+
+    // Redraw with the current view, given as the canvas-space corners of the screen, and the
+    // bounds of the visible layers' contents
+    function update(viewCorners: Point[], contentBounds: Bounds | null) {
+        const width = mapCanvas.clientWidth;
+        const height = mapCanvas.clientHeight;
+        if (width === 0 || height === 0) return;
+        const pixelRatio = window.devicePixelRatio || 1;
+        if (mapCanvas.width !== Math.round(width * pixelRatio) || mapCanvas.height !== Math.round(height * pixelRatio)) {
+            mapCanvas.width = Math.round(width * pixelRatio);
+            mapCanvas.height = Math.round(height * pixelRatio);
+        }
+
+        // Map the drawing and the view together, so the view outline is always on the map
+        const layers = options.getLayers();
+        const viewBounds = getPointsBounds(viewCorners)!;
+        const bounds = contentBounds ? getPointsBounds([
+            { x: contentBounds.minX, y: contentBounds.minY },
+            { x: contentBounds.maxX, y: contentBounds.maxY },
+            { x: viewBounds.minX, y: viewBounds.minY },
+            { x: viewBounds.maxX, y: viewBounds.maxY }
+        ])! : viewBounds;
+        if (width !== mapWidth || height !== mapHeight || !isAreaSuitable(bounds)) {
+            mapWidth = width;
+            mapHeight = height;
+            setArea(bounds);
+        }
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, mapCanvas.width, mapCanvas.height);
+        const cacheKey = [layers.map(content => content.layer), layers.flatMap(content => content.strokes),
+            area!.minX, area!.minY, mapScale];
+        contentCache.draw(ctx, cacheKey, target => {
+            target.setTransform(pixelRatio * mapScale, 0, 0, pixelRatio * mapScale,
+                -area!.minX * mapScale * pixelRatio, -area!.minY * mapScale * pixelRatio);
+            target.lineCap = 'round';
+            target.lineJoin = 'round';
+            layers.forEach(({ layer, strokes }) => drawLayer(target, strokes, layer.opacity, scratch));
+        });
+
+        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        ctx.beginPath();
+        viewCorners.map(toMapPoint).forEach((p, i) => {
+            if (i === 0) {
+                ctx.moveTo(p.x, p.y);
+            } else {
+                ctx.lineTo(p.x, p.y);
+            }
+        });
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(74, 144, 217, 0.15)';
+        ctx.fill();
+        ctx.strokeStyle = '#4a90d9';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+    }
+
+    function isAreaSuitable(bounds: Bounds): boolean {
+        if (!area) return false;
+        const inside = bounds.minX >= area.minX && bounds.minY >= area.minY &&
+            bounds.maxX <= area.maxX && bounds.maxY <= area.maxY;
+        const fill = Math.max(
+            (bounds.maxX - bounds.minX) / (area.maxX - area.minX),
+            (bounds.maxY - bounds.minY) / (area.maxY - area.minY)
+        );
+        return inside && fill >= MIN_AREA_FILL;
+    }
+
+    // Fit `bounds` (plus padding) into the map, centered
+    function setArea(bounds: Bounds) {
+        const boundsWidth = Math.max(1, bounds.maxX - bounds.minX);
+        const boundsHeight = Math.max(1, bounds.maxY - bounds.minY);
+        mapScale = Math.min(mapWidth / boundsWidth, mapHeight / boundsHeight) * (1 - MAP_PADDING * 2);
+        const areaWidth = mapWidth / mapScale;
+        const areaHeight = mapHeight / mapScale;
+        const centerX = (bounds.minX + bounds.maxX) / 2;
+        const centerY = (bounds.minY + bounds.maxY) / 2;
+        area = {
+            minX: centerX - areaWidth / 2,
+            minY: centerY - areaHeight / 2,
+            maxX: centerX + areaWidth / 2,
+            maxY: centerY + areaHeight / 2
+        };
+    }
+
+    function navigate(e: PointerEvent, animate: boolean) {
+        if (!area) return;
+        const rect = mapCanvas.getBoundingClientRect();
+        options.onNavigate(toCanvasPoint({ x: e.clientX - rect.left, y: e.clientY - rect.top }), animate);
+    }
+
+    mapCanvas.addEventListener('pointerdown', (e) => {
+        e.preventDefault();
+        dragPointerId = e.pointerId;
+        mapCanvas.setPointerCapture(e.pointerId);
+        navigate(e, true);
+    });
+    mapCanvas.addEventListener('pointermove', (e) => {
+        if (e.pointerId === dragPointerId) {
+            navigate(e, false);
+        }
+    });
+    const endDrag = (e: PointerEvent) => {
+        if (e.pointerId === dragPointerId) {
+            dragPointerId = null;
+        }
+    };
+    mapCanvas.addEventListener('pointerup', endDrag);
+    mapCanvas.addEventListener('pointercancel', endDrag);
+
+    return { update };
+}
@@ -0,0 +1,60 @@
+import { getDistance } from './geometry';
+import type { Point } from './types';
+
+// Pointer properties captured alongside each stroke point
+export interface PointerSample {
+    pointerType: string;
+    pressure: number;
+    tiltX: number;
+    tiltY: number;
+    time: number;
+}
+
+// Simulated pressure range for fingers and mice
+const MIN_SIMULATED_PRESSURE = 0.35;
+const FAST_SPEED = 2.5;      // screen px/ms at which simulated pressure bottoms out
+const SPEED_SMOOTHING = 0.3; // weight of the newest sample
+
+export function samplePointer(e: PointerEvent): PointerSample {
+    return {
+        pointerType: e.pointerType,
+        pressure: e.pressure,
+        tiltX: e.tiltX,
+        tiltY: e.tiltY,
+        time: e.timeStamp
+    };
+}
+
+// Produces pressure/tilt for each new stroke point: real values from a pen,
+// or a velocity-based estimate (slower = heavier) for fingers and mice
+export function createPressureEstimator() {
+    let lastPos: Point | null = null;
+    let lastTime = 0;
+    let simulated = 1;
+
+    function reset() {
+        lastPos = null;
+        simulated = 1;
+    }
+
+    function estimate(sample: PointerSample, screenPos: Point): { pressure: number; tilt?: number } {
+        if (sample.pointerType === 'pen' && sample.pressure > 0) {
+            const tiltDegrees = Math.min(90, Math.hypot(sample.tiltX, sample.tiltY));
+            lastPos = screenPos;
+            lastTime = sample.time;
+            return { pressure: sample.pressure, tilt: tiltDegrees / 90 };
+        }
+
+        if (lastPos) {
+            const elapsed = Math.max(1, sample.time - lastTime);
+            const speed = getDistance(lastPos, screenPos) / elapsed;
+            const target = 1 - (1 - MIN_SIMULATED_PRESSURE) * Math.min(1, speed / FAST_SPEED);
+            simulated += (target - simulated) * SPEED_SMOOTHING;
+        }
+        lastPos = screenPos;
+        lastTime = sample.time;
+        return { pressure: simulated };
+    }
+
+    return { reset, estimate };
+}
@@ -0,0 +1,42 @@
+// Bitmap of a rendered scene, redrawn only when the values it was rendered from change.
+// Arrays in the key are compared item by item, since the drawing's lists are edited in place.
+export function createRenderCache() {
+    const cache = document.createElement('canvas');
+    let lastKey: unknown[] | null = null;
+
+    function isSameKey(key: unknown[]): boolean {
+        if (!lastKey || lastKey.length !== key.length) return false;
+        return key.every((value, i) => {
+            const last = lastKey![i];
+            if (Array.isArray(value) && Array.isArray(last)) {
+                return value.length === last.length && value.every((item, j) => item === last[j]);
+            }
+            return Object.is(value, last);
+        });
+    }
+
+    // Copy the cached bitmap onto `ctx`, first re-rendering it with `render` if `key` changed.
+    // `render` gets a cleared context of the same size with an identity transform.
+    function draw(ctx: CanvasRenderingContext2D, key: unknown[], render: (cacheCtx: CanvasRenderingContext2D) => void) {
+        const { width, height } = ctx.canvas;
+        const fullKey = [width, height, ...key];
+        if (cache.width !== width || cache.height !== height) {
+            cache.width = width;
+            cache.height = height;
+            lastKey = null;
+        }
+        if (!isSameKey(fullKey)) {
+            const cacheCtx = cache.getContext('2d')!;
+            cacheCtx.setTransform(1, 0, 0, 1, 0, 0);
+            cacheCtx.clearRect(0, 0, width, height);
+            render(cacheCtx);
+            lastKey = fullKey.map(value => Array.isArray(value) ? value.slice() : value);
+        }
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.drawImage(cache, 0, 0);
+        ctx.restore();
+    }
+
+    return { draw };
+}
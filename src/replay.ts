@@ -0,0 +1,99 @@
+import { getVisibleLayerContents } from './layers';
+import { drawLayer } from './strokeRenderer';
+import type { Bounds, DrawingObject, Layer } from './types';
+
+// Replays a drawing object by object, in drawing order. Freehand strokes are redrawn at
+// the pace they were drawn, from their points' timestamps; shapes, text and images
+// appear whole. The time between objects is not recorded, so every pause is the same.
+const OBJECT_GAP = 150;          // ms between one object and the next
+const WHOLE_OBJECT_TIME = 300;   // ms an object that appears whole is shown before the next
+const UNTIMED_POINT_TIME = 16;   // ms per point for strokes saved without timestamps
+const MAX_STROKE_TIME = 5000;    // ms; longer strokes are sped up to this
+
+interface ReplayStep {
+    obj: DrawingObject;
+    start: number;      // ms into the replay
+    duration: number;
+}
+
+export interface ReplayTimeline {
+    steps: ReplayStep[];
+    duration: number;   // ms
+}
+
+// How long a stroke took to draw (its first point may not be at t = 0 if it was split by the eraser)
+function getStrokeTime(obj: DrawingObject): number {
+    if (obj.kind !== 'stroke') return WHOLE_OBJECT_TIME;
+    const { points } = obj;
+    const first = points[0].t;
+    const last = points[points.length - 1].t;
+    const time = first !== undefined && last !== undefined
+        ? last - first
+        : (points.length - 1) * UNTIMED_POINT_TIME;
+    return Math.min(MAX_STROKE_TIME, Math.max(0, time));
+}
+
+export function createReplayTimeline(objects: DrawingObject[]): ReplayTimeline {
+    let time = 0;
+    const steps = objects.map((obj, i) => {
+        if (i > 0) time += OBJECT_GAP;
+        const step = { obj, start: time, duration: getStrokeTime(obj) };
+        time += step.duration;
+        return step;
+    });
+    return { steps, duration: time };
+}
+
+// The part of a stroke drawn `elapsed` ms after it started
+function getPartialStroke(obj: DrawingObject, elapsed: number, duration: number): DrawingObject | null {
+    if (obj.kind !== 'stroke' || elapsed >= duration) return obj;
+    const { points } = obj;
+    const first = points[0].t;
+    const last = points[points.length - 1].t;
+    let count: number;
+    if (first !== undefined && last !== undefined) {
+        // Long strokes were sped up to fit MAX_STROKE_TIME
+        const cutoff = first + elapsed * (last - first) / duration;
+        count = points.findIndex(p => p.t !== undefined && p.t > cutoff);
+        if (count === -1) count = points.length;
+    } else {
+        count = Math.floor(elapsed / duration * points.length);
+    }
+    return count > 0 ? { ...obj, points: points.slice(0, count) } : null;
+}
+
+// Objects as they stand `time` ms into the replay
+export function getReplayObjects(timeline: ReplayTimeline, time: number): DrawingObject[] {
+    const objects: DrawingObject[] = [];
+    for (const step of timeline.steps) {
+        if (step.start > time) break;
+        const obj = getPartialStroke(step.obj, time - step.start, step.duration);
+        if (obj) objects.push(obj);
+    }
+    return objects;
+}
+
+// Draw a moment of the replay onto a canvas, fitting `bounds` (canvas units) inside it
+export function drawReplayFrame(
+    ctx: CanvasRenderingContext2D,
+    layers: Layer[],
+    objects: DrawingObject[],
+    bounds: Bounds,
+    background: string,
+    scratch: HTMLCanvasElement
+) {
+    const { width, height } = ctx.canvas;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+
+    const scale = Math.min(width / (bounds.maxX - bounds.minX || 1), height / (bounds.maxY - bounds.minY || 1));
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-(bounds.minX + bounds.maxX) / 2, -(bounds.minY + bounds.maxY) / 2);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    getVisibleLayerContents(layers, objects).forEach(({ layer, strokes }) => {
+        drawLayer(ctx, strokes, layer.opacity, scratch);
+    });
+}
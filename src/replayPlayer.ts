@@ -0,0 +1,354 @@
+import { downloadBlob } from './exporter';
+import { sanitizeFileName } from './exportMenu';
+import { createGifEncoder, createGifPalette } from './gif';
+import { createReplayTimeline, drawReplayFrame, getReplayObjects, type ReplayTimeline } from './replay';
+import { getObjectsBounds } from './shapes';
+import type { Bounds, DrawingObject, Layer } from './types';
+
+interface ReplayPlayerOptions {
+    getLayers: () => Layer[];
+    getObjects: () => DrawingObject[];
+    getFileName: () => string;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const BACKGROUND = '#FFFFFF';
+const EXPORT_SIZE = 640;        // px along the longer side of exported animations
+const GIF_FRAME_TIME = 100;     // ms per GIF frame
+const MAX_GIF_FRAMES = 600;     // longer replays are sped up to fit
+const WEBM_FRAME_RATE = 30;
+const END_HOLD = 2000;          // ms the finished drawing stays on screen at the end of an export
+
+function formatTime(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Drawing bounds with a margin, so the replay doesn't touch the edges
+function getReplayBounds(objects: DrawingObject[]): Bounds | null {
+    const bounds = getObjectsBounds(objects);
+    if (!bounds) return null;
+    const margin = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) * 0.05 + 10;
+    return {
+        minX: bounds.minX - margin,
+        minY: bounds.minY - margin,
+        maxX: bounds.maxX + margin,
+        maxY: bounds.maxY + margin
+    };
+}
+
+// Canvas with the drawing's aspect ratio, EXPORT_SIZE along its longer side
+function createExportCanvas(bounds: Bounds): HTMLCanvasElement {
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const scale = EXPORT_SIZE / Math.max(width, height);
+    const canvas = document.createElement('canvas');
+    // Video encoders want even dimensions
+    canvas.width = Math.max(2, Math.round(width * scale / 2) * 2);
+    canvas.height = Math.max(2, Math.round(height * scale / 2) * 2);
+    return canvas;
+}
+
+// Full-window player that replays the drawing as it was drawn, with an animated export
+export function createReplayPlayer(
+    triggerElement: HTMLElement,
+    options: ReplayPlayerOptions
+) {
+    let overlay: HTMLElement | null = null;
+    let layers: Layer[] = [];
+    let timeline: ReplayTimeline = { steps: [], duration: 0 };
+    let bounds: Bounds | null = null;
+    let time = 0;
+    let speed = 1;
+    let playing = false;
+    let busy = false;           // exporting
+    let frame: number | null = null;
+    let lastFrameTime = 0;
+    const scratch = document.createElement('canvas');
+
+    let canvas: HTMLCanvasElement;
+    let playButton: HTMLButtonElement;
+    let scrubber: HTMLInputElement;
+    let timeLabel: HTMLElement;
+    let exportButtons: HTMLButtonElement[] = [];
+
+    function render() {
+        if (!overlay || !bounds) return;
+        const ratio = window.devicePixelRatio || 1;
+        const rect = canvas.getBoundingClientRect();
+        const width = Math.max(1, Math.round(rect.width * ratio));
+        const height = Math.max(1, Math.round(rect.height * ratio));
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+        }
+        drawReplayFrame(canvas.getContext('2d')!, layers, getReplayObjects(timeline, time), bounds, BACKGROUND, scratch);
+        scrubber.value = String(time);
+        timeLabel.textContent = `${formatTime(time)} / ${formatTime(timeline.duration)}`;
+        playButton.textContent = playing ? 'Pause' : 'Play';
+    }
+
+    function tick(now: number) {
+        frame = null;
+        if (!playing) return;
+        time = Math.min(timeline.duration, time + (now - lastFrameTime) * speed);
+        lastFrameTime = now;
+        if (time >= timeline.duration) {
+            playing = false;
+        } else {
+            frame = requestAnimationFrame(tick);
+        }
+        render();
+    }
+
+    function setPlaying(value: boolean) {
+        playing = value;
+        if (playing) {
+            // Playing from the end starts over
+            if (time >= timeline.duration) time = 0;
+            lastFrameTime = performance.now();
+            frame = frame ?? requestAnimationFrame(tick);
+        }
+        render();
+    }
+
+    function setBusy(value: boolean) {
+        busy = value;
+        [playButton, scrubber, ...exportButtons].forEach(control => {
+            control.disabled = busy;
+        });
+    }
+
+    // Render the whole replay at a fixed frame time and encode it as a GIF
+    async function exportGif(button: HTMLButtonElement) {
+        if (!bounds) return;
+        const target = createExportCanvas(bounds);
+        const targetCtx = target.getContext('2d', { willReadFrequently: true })!;
+        const replayTime = Math.max(GIF_FRAME_TIME * speed, timeline.duration / MAX_GIF_FRAMES);
+        const count = Math.ceil(timeline.duration / replayTime) + 1;
+
+        // One palette for the whole animation, from the finished drawing
+        drawReplayFrame(targetCtx, layers, getReplayObjects(timeline, timeline.duration), bounds, BACKGROUND, scratch);
+        const palette = createGifPalette(targetCtx.getImageData(0, 0, target.width, target.height).data);
+        const encoder = createGifEncoder(target.width, target.height, palette);
+
+        for (let i = 0; i < count; i++) {
+            const at = Math.min(timeline.duration, i * replayTime);
+            drawReplayFrame(targetCtx, layers, getReplayObjects(timeline, at), bounds, BACKGROUND, scratch);
+            encoder.addFrame(targetCtx.getImageData(0, 0, target.width, target.height).data,
+                i === count - 1 ? END_HOLD : GIF_FRAME_TIME);
+            if (i % 10 === 0) {
+                button.textContent = `${Math.round(i / count * 100)}%`;
+                // Let the page repaint between batches of frames
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        }
+        downloadBlob(encoder.finish(), `${sanitizeFileName(options.getFileName())}.gif`);
+    }
+
+    // Record the replay (at the chosen speed) from an offscreen canvas in real time
+    async function exportWebm(button: HTMLButtonElement) {
+        if (!bounds) return;
+        const type = ['video/webm;codecs=vp9', 'video/webm'].find(t =>
+            typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(t));
+        if (!type) {
+            window.alert('This browser can\'t record WebM video.');
+            return;
+        }
+        const target = createExportCanvas(bounds);
+        const targetCtx = target.getContext('2d')!;
+        const drawAt = (at: number) => drawReplayFrame(
+            targetCtx, layers, getReplayObjects(timeline, at), bounds!, BACKGROUND, scratch);
+        drawAt(0);
+
+        const recorder = new MediaRecorder(target.captureStream(WEBM_FRAME_RATE), { mimeType: type });
+        const chunks: Blob[] = [];
+        recorder.addEventListener('dataavailable', e => chunks.push(e.data));
+        const stopped = new Promise(resolve => recorder.addEventListener('stop', resolve));
+        recorder.start();
+
+        const length = timeline.duration / speed + END_HOLD;
+        const start = performance.now();
+        await new Promise<void>(resolve => {
+            const step = () => {
+                const elapsed = performance.now() - start;
+                drawAt(Math.min(timeline.duration, elapsed * speed));
+                button.textContent = `${Math.round(Math.min(1, elapsed / length) * 100)}%`;
+                if (elapsed >= length) {
+                    resolve();
+                } else {
+                    setTimeout(step, 1000 / WEBM_FRAME_RATE);
+                }
+            };
+            step();
+        });
+        recorder.stop();
+        await stopped;
+        downloadBlob(new Blob(chunks, { type: 'video/webm' }), `${sanitizeFileName(options.getFileName())}.webm`);
+    }
+
+    function runExport(button: HTMLButtonElement, run: (button: HTMLButtonElement) => Promise<void>) {
+        const label = button.textContent;
+        setPlaying(false);
+        setBusy(true);
+        run(button)
+            .catch(err => {
+                console.error('Export failed', err);
+                window.alert('Export failed.');
+            })
+            .finally(() => {
+                button.textContent = label;
+                setBusy(false);
+            });
+    }
+
+    function createButton(label: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 6px 12px;
+            font-size: 13px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function createOverlay() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: fixed;
+            inset: 0;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            padding: 12px;
+            background: rgba(0,0,0,0.85);
+            z-index: 2000;
+        `;
+
+        canvas = document.createElement('canvas');
+        canvas.style.cssText = `
+            flex: 1;
+            min-height: 0;
+            width: 100%;
+            border-radius: 4px;
+        `;
+        div.appendChild(canvas);
+
+        const controls = document.createElement('div');
+        controls.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            color: #fff;
+            font-size: 13px;
+        `;
+
+        playButton = createButton('Play', () => setPlaying(!playing));
+        playButton.style.width = '64px';
+        controls.appendChild(playButton);
+
+        scrubber = document.createElement('input');
+        scrubber.type = 'range';
+        scrubber.min = '0';
+        scrubber.max = String(timeline.duration);
+        scrubber.style.flex = '1';
+        scrubber.addEventListener('input', () => {
+            time = Number(scrubber.value);
+            render();
+        });
+        controls.appendChild(scrubber);
+
+        timeLabel = document.createElement('span');
+        timeLabel.style.cssText = `
+            min-width: 80px;
+            text-align: center;
+        `;
+        controls.appendChild(timeLabel);
+
+        const speedSelect = document.createElement('select');
+        SPEEDS.forEach(s => {
+            const option = document.createElement('option');
+            option.value = String(s);
+            option.textContent = `${s}×`;
+            option.selected = s === speed;
+            speedSelect.appendChild(option);
+        });
+        speedSelect.title = 'Playback speed (also used for exports)';
+        speedSelect.addEventListener('change', () => {
+            speed = Number(speedSelect.value);
+        });
+        controls.appendChild(speedSelect);
+
+        const gifButton = createButton('GIF', () => runExport(gifButton, exportGif));
+        const webmButton = createButton('WebM', () => runExport(webmButton, exportWebm));
+        gifButton.title = 'Download the replay as an animated GIF';
+        webmButton.title = 'Record the replay as a WebM video (takes as long as the replay)';
+        exportButtons = [gifButton, webmButton];
+        controls.appendChild(gifButton);
+        controls.appendChild(webmButton);
+        controls.appendChild(createButton('Close', closePlayer));
+        div.appendChild(controls);
+
+        return div;
+    }
+
+    function openPlayer() {
+        if (overlay) return;
+        const objects = options.getObjects();
+        bounds = getReplayBounds(objects);
+        if (!bounds) {
+            window.alert('Nothing to replay yet.');
+            return;
+        }
+        layers = options.getLayers();
+        timeline = createReplayTimeline(objects);
+        time = 0;
+        overlay = createOverlay();
+        document.body.appendChild(overlay);
+        window.addEventListener('keydown', handleKey, true);
+        window.addEventListener('keyup', swallowKey, true);
+        window.addEventListener('resize', render);
+        setPlaying(true);
+    }
+
+    function closePlayer() {
+        // Leaving mid-export would lose the file
+        if (!overlay || busy) return;
+        playing = false;
+        if (frame !== null) {
+            cancelAnimationFrame(frame);
+            frame = null;
+        }
+        overlay.remove();
+        overlay = null;
+        window.removeEventListener('keydown', handleKey, true);
+        window.removeEventListener('keyup', swallowKey, true);
+        window.removeEventListener('resize', render);
+    }
+
+    // The drawing's shortcuts are off while the player is open
+    function swallowKey(e: KeyboardEvent) {
+        e.stopPropagation();
+    }
+
+    function handleKey(e: KeyboardEvent) {
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            closePlayer();
+        } else if (e.key === ' ' && !busy) {
+            e.preventDefault();
+            setPlaying(!playing);
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        openPlayer();
+    });
+}
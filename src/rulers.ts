@@ -0,0 +1,96 @@
+import type { Point } from './types';
+
+// On-screen rulers along the top and left edges of the canvas. They measure canvas units
+// along the screen's axes from the canvas origin, so they read canvas x and y while the
+// view isn't rotated.
+export const RULER_SIZE = 20;    // CSS px
+const MIN_LABEL_SPACING = 60;    // CSS px between labelled ticks
+const BACKGROUND = 'rgba(245,245,245,0.92)';
+const TICK_COLOR = '#888';
+const LABEL_COLOR = '#555';
+const CURSOR_COLOR = '#4a90d9';
+
+// Smallest 1, 2 or 5 times a power of ten that is at least `min`
+function getNiceStep(min: number): number {
+    const power = Math.pow(10, Math.floor(Math.log10(min)));
+    return [1, 2, 5, 10].map(m => m * power).find(step => step >= min)!;
+}
+
+function formatLabel(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+// Draw both rulers in screen space. `origin` is where the canvas origin is on screen and
+// `scale` the view scale; `cursor` (screen coordinates) is marked on both.
+export function drawRulers(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    origin: Point,
+    scale: number,
+    cursor: Point | null
+) {
+    const step = getNiceStep(MIN_LABEL_SPACING / scale);
+    const minor = step / (step * scale / 5 >= 6 ? 5 : 2);
+
+    ctx.save();
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, RULER_SIZE);
+    ctx.fillRect(0, RULER_SIZE, RULER_SIZE, height - RULER_SIZE);
+    ctx.font = '10px sans-serif';
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = TICK_COLOR;
+    ctx.fillStyle = LABEL_COLOR;
+
+    // Horizontal ruler
+    ctx.beginPath();
+    for (let i = Math.ceil(-origin.x / scale / minor); origin.x + i * minor * scale <= width; i++) {
+        const x = Math.round(origin.x + i * minor * scale) + 0.5;
+        if (x < RULER_SIZE) continue;
+        const labelled = Math.abs(i * minor / step - Math.round(i * minor / step)) < 1e-6;
+        ctx.moveTo(x, RULER_SIZE);
+        ctx.lineTo(x, labelled ? 0 : RULER_SIZE * 0.7);
+        if (labelled) {
+            ctx.textBaseline = 'top';
+            ctx.fillText(formatLabel(i * minor), x + 3, 2);
+        }
+    }
+    ctx.stroke();
+
+    // Vertical ruler, with labels reading upwards
+    ctx.beginPath();
+    for (let i = Math.ceil(-origin.y / scale / minor); origin.y + i * minor * scale <= height; i++) {
+        const y = Math.round(origin.y + i * minor * scale) + 0.5;
+        if (y < RULER_SIZE) continue;
+        const labelled = Math.abs(i * minor / step - Math.round(i * minor / step)) < 1e-6;
+        ctx.moveTo(RULER_SIZE, y);
+        ctx.lineTo(labelled ? 0 : RULER_SIZE * 0.3, y);
+        if (labelled) {
+            ctx.save();
+            ctx.translate(2, y - 3);
+            ctx.rotate(-Math.PI / 2);
+            ctx.textBaseline = 'top';
+            ctx.fillText(formatLabel(i * minor), 0, 0);
+            ctx.restore();
+        }
+    }
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(0, RULER_SIZE + 0.5);
+    ctx.lineTo(width, RULER_SIZE + 0.5);
+    ctx.moveTo(RULER_SIZE + 0.5, 0);
+    ctx.lineTo(RULER_SIZE + 0.5, height);
+    ctx.stroke();
+
+    if (cursor) {
+        ctx.beginPath();
+        ctx.moveTo(cursor.x, 0);
+        ctx.lineTo(cursor.x, RULER_SIZE);
+        ctx.moveTo(0, cursor.y);
+        ctx.lineTo(RULER_SIZE, cursor.y);
+        ctx.strokeStyle = CURSOR_COLOR;
+        ctx.stroke();
+    }
+    ctx.restore();
+}
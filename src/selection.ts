@@ -0,0 +1,58 @@
+import { applyMatrix, getMatrixScale, pointInPolygon, type Matrix } from './geometry';
+import { getObjectPaths } from './shapes';
+import type { Bounds, DrawingObject, Point } from './types';
+
+export type SelectionShape = 'lasso' | 'rectangle';
+
+// An object is selected when at least this share of its points is inside the selection area
+const SELECT_THRESHOLD = 0.5;
+
+// Polygon enclosed by a selection gesture, in canvas coordinates
+export function getSelectionPolygon(shape: SelectionShape, path: Point[]): Point[] {
+    if (shape === 'lasso' || path.length < 2) return path;
+
+    const start = path[0];
+    const end = path[path.length - 1];
+    return [
+        start,
+        { x: end.x, y: start.y },
+        end,
+        { x: start.x, y: end.y }
+    ];
+}
+
+// Strokes and shapes mostly inside the polygon; shapes are judged by their outline
+export function selectObjects(objects: DrawingObject[], polygon: Point[]): DrawingObject[] {
+    if (polygon.length < 3) return [];
+    return objects.filter(obj => {
+        const points = getObjectPaths(obj).flat();
+        const inside = points.filter(p => pointInPolygon(p, polygon)).length;
+        return inside > 0 && inside >= points.length * SELECT_THRESHOLD;
+    });
+}
+
+// Copy of an object with its points (and width) transformed
+export function transformObject<T extends DrawingObject>(obj: T, m: Matrix): T {
+    const points = obj.points.map(p => ({ ...p, ...applyMatrix(m, p) }));
+    if (obj.kind === 'image' || obj.kind === 'fill') {
+        return { ...obj, points };
+    }
+    return { ...obj, size: obj.size * getMatrixScale(m), points };
+}
+
+// Corners of a bounding box, clockwise from top-left; transformed along with the selection
+export function getFrameFromBounds(bounds: Bounds): Point[] {
+    return [
+        { x: bounds.minX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY },
+        { x: bounds.minX, y: bounds.maxY }
+    ];
+}
+
+export function getFrameCenter(frame: Point[]): Point {
+    return {
+        x: frame.reduce((sum, p) => sum + p.x, 0) / frame.length,
+        y: frame.reduce((sum, p) => sum + p.y, 0) / frame.length
+    };
+}
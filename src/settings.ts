@@ -0,0 +1,113 @@
+import { GRID_TYPES, MAX_GRID_SIZE, MIN_GRID_SIZE, type GridType } from './grid';
+import type { Point } from './types';
+
+const SETTINGS_KEY = 'webdraw.settings';
+
+// Which way the touch cursor sits from the finger
+export type OffsetDirection = 'up-left' | 'up' | 'up-right' | 'left' | 'right';
+
+export const OFFSET_DIRECTIONS: { id: OffsetDirection; label: string }[] = [
+    { id: 'up-left', label: 'Up left' },
+    { id: 'up', label: 'Up' },
+    { id: 'up-right', label: 'Up right' },
+    { id: 'left', label: 'Left' },
+    { id: 'right', label: 'Right' },
+];
+
+// Limits of the numeric settings, as used by the settings panel
+export const MAX_OFFSET_DISTANCE = 240;  // CSS px
+export const MIN_HOLD_DELAY = 100;       // ms
+export const MAX_HOLD_DELAY = 600;
+
+export interface Settings {
+    offsetDirection: OffsetDirection;
+    offsetDistance: number;     // CSS px from the finger to the cursor; 0 draws under the finger
+    holdDelay: number;          // ms a finger rests before it starts drawing
+    liftModeDefault: boolean;   // lift mode state when the app starts
+    pinchRotation: boolean;     // two-finger pinch also rotates the view
+    stylusMode: boolean;        // only a pen (or mouse) draws; fingers just pan, zoom and rotate
+    twoFingerTapUndo: boolean;
+    threeFingerTapRedo: boolean;
+    gridType: GridType;
+    gridSize: number;           // canvas units between grid lines (before thinning out when zoomed out)
+    showRulers: boolean;
+    snapToGrid: boolean;        // stroke points and shape corners land on the grid
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+    offsetDirection: 'up-left',
+    offsetDistance: 120,
+    holdDelay: 250,
+    liftModeDefault: false,
+    pinchRotation: true,
+    stylusMode: false,
+    twoFingerTapUndo: false,
+    threeFingerTapRedo: false,
+    gridType: 'blank',
+    gridSize: 20,
+    showRulers: false,
+    snapToGrid: false,
+};
+
+// Offset from the finger to the cursor
+export function getOffsetVector(settings: Settings): Point {
+    const diagonal = settings.offsetDistance / Math.SQRT2;
+    switch (settings.offsetDirection) {
+        case 'up-left': return { x: -diagonal, y: -diagonal };
+        case 'up': return { x: 0, y: -settings.offsetDistance };
+        case 'up-right': return { x: diagonal, y: -diagonal };
+        case 'left': return { x: -settings.offsetDistance, y: 0 };
+        case 'right': return { x: settings.offsetDistance, y: 0 };
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+// Saved settings, with defaults for anything missing or invalid (e.g. from an older version)
+export function loadSettings(): Settings {
+    let saved: Record<string, unknown>;
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+        saved = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+    } catch {
+        return { ...DEFAULT_SETTINGS };
+    }
+
+    const number = (key: keyof Settings, min: number, max: number): number => {
+        const value = saved[key];
+        return typeof value === 'number' && Number.isFinite(value)
+            ? clamp(value, min, max)
+            : DEFAULT_SETTINGS[key] as number;
+    };
+    const boolean = (key: keyof Settings): boolean => {
+        const value = saved[key];
+        return typeof value === 'boolean' ? value : DEFAULT_SETTINGS[key] as boolean;
+    };
+    const direction = OFFSET_DIRECTIONS.find(d => d.id === saved.offsetDirection);
+    const grid = GRID_TYPES.find(g => g.id === saved.gridType);
+
+    return {
+        offsetDirection: direction ? direction.id : DEFAULT_SETTINGS.offsetDirection,
+        offsetDistance: number('offsetDistance', 0, MAX_OFFSET_DISTANCE),
+        holdDelay: number('holdDelay', MIN_HOLD_DELAY, MAX_HOLD_DELAY),
+        liftModeDefault: boolean('liftModeDefault'),
+        pinchRotation: boolean('pinchRotation'),
+        stylusMode: boolean('stylusMode'),
+        twoFingerTapUndo: boolean('twoFingerTapUndo'),
+        threeFingerTapRedo: boolean('threeFingerTapRedo'),
+        gridType: grid ? grid.id : DEFAULT_SETTINGS.gridType,
+        gridSize: number('gridSize', MIN_GRID_SIZE, MAX_GRID_SIZE),
+        showRulers: boolean('showRulers'),
+        snapToGrid: boolean('snapToGrid'),
+    };
+}
+
+export function saveSettings(settings: Settings) {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+        // Storage may be unavailable (private mode); the settings last for this visit
+    }
+}
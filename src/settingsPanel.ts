@@ -0,0 +1,211 @@
+import {
+    DEFAULT_SETTINGS,
+    MAX_HOLD_DELAY,
+    MAX_OFFSET_DISTANCE,
+    MIN_HOLD_DELAY,
+    OFFSET_DIRECTIONS,
+    type OffsetDirection,
+    type Settings
+} from './settings';
+
+interface SettingsPanelOptions {
+    getSettings: () => Settings;
+    onChange: (settings: Settings) => void;
+}
+
+export function createSettingsPanel(
+    triggerElement: HTMLElement,
+    options: SettingsPanelOptions
+) {
+    let popup: HTMLElement | null = null;
+
+    function update(changes: Partial<Settings>) {
+        options.onChange({ ...options.getSettings(), ...changes });
+    }
+
+    function createSection(title: string) {
+        const section = document.createElement('div');
+        section.style.cssText = `
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding-top: 6px;
+            border-top: 1px solid #444;
+            color: #aaa;
+            font-size: 12px;
+        `;
+        section.append(title);
+        return section;
+    }
+
+    function createRow(label: string) {
+        const row = document.createElement('label');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            color: #fff;
+            font-size: 13px;
+        `;
+        row.append(label);
+        row.addEventListener('click', e => e.stopPropagation());
+        return row;
+    }
+
+    function createSlider(label: string, value: number, min: number, max: number, step: number,
+        format: (value: number) => string, onInput: (value: number) => void) {
+        const row = createRow(label);
+        const slider = document.createElement('input');
+        slider.type = 'range';
+        slider.min = String(min);
+        slider.max = String(max);
+        slider.step = String(step);
+        slider.value = String(value);
+        slider.style.flex = '1';
+        const text = document.createElement('span');
+        text.textContent = format(value);
+        text.style.cssText = `
+            width: 48px;
+            text-align: right;
+            color: #aaa;
+        `;
+        slider.addEventListener('input', () => {
+            text.textContent = format(Number(slider.value));
+            onInput(Number(slider.value));
+        });
+        row.appendChild(slider);
+        row.appendChild(text);
+        return row;
+    }
+
+    function createCheckbox(label: string, checked: boolean, onToggle: (checked: boolean) => void) {
+        const row = createRow('');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = checked;
+        checkbox.addEventListener('change', () => onToggle(checkbox.checked));
+        row.appendChild(checkbox);
+        row.append(label);
+        return row;
+    }
+
+    // (Re)build the popup contents from the current settings
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+        const settings = options.getSettings();
+
+        const cursor = createSection('Touch cursor');
+        const directionRow = createRow('Direction');
+        const directionSelect = document.createElement('select');
+        directionSelect.style.flex = '1';
+        OFFSET_DIRECTIONS.forEach(direction => {
+            const option = document.createElement('option');
+            option.value = direction.id;
+            option.textContent = direction.label;
+            option.selected = direction.id === settings.offsetDirection;
+            directionSelect.appendChild(option);
+        });
+        directionSelect.addEventListener('change', () => {
+            update({ offsetDirection: directionSelect.value as OffsetDirection });
+        });
+        directionRow.appendChild(directionSelect);
+        cursor.appendChild(directionRow);
+        cursor.appendChild(createSlider('Distance', settings.offsetDistance, 0, MAX_OFFSET_DISTANCE, 10,
+            value => value === 0 ? 'None' : `${value}px`, value => update({ offsetDistance: value })));
+        cursor.appendChild(createSlider('Hold', settings.holdDelay, MIN_HOLD_DELAY, MAX_HOLD_DELAY, 25,
+            value => `${value}ms`, value => update({ holdDelay: value })));
+        popup.appendChild(cursor);
+
+        const gestures = createSection('Gestures');
+        gestures.appendChild(createCheckbox('Stylus mode (fingers only navigate)', settings.stylusMode,
+            checked => update({ stylusMode: checked })));
+        gestures.appendChild(createCheckbox('Start in lift mode', settings.liftModeDefault,
+            checked => update({ liftModeDefault: checked })));
+        gestures.appendChild(createCheckbox('Rotate while pinching', settings.pinchRotation,
+            checked => update({ pinchRotation: checked })));
+        gestures.appendChild(createCheckbox('Two-finger tap to undo', settings.twoFingerTapUndo,
+            checked => update({ twoFingerTapUndo: checked })));
+        gestures.appendChild(createCheckbox('Three-finger tap to redo', settings.threeFingerTapRedo,
+            checked => update({ threeFingerTapRedo: checked })));
+        popup.appendChild(gestures);
+
+        const resetButton = document.createElement('button');
+        resetButton.textContent = 'Restore defaults';
+        resetButton.style.cssText = `
+            padding: 8px 4px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        resetButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            // The grid has its own menu, so it keeps its settings
+            const { gridType, gridSize, showRulers, snapToGrid } = options.getSettings();
+            options.onChange({ ...DEFAULT_SETTINGS, gridType, gridSize, showRulers, snapToGrid });
+            renderPopup();
+        });
+        popup.appendChild(resetButton);
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            width: 260px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${Math.max(4, Math.min(rect.left, window.innerWidth - popup.offsetWidth - 4))}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        renderPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+}
@@ -0,0 +1,207 @@
+import { getFillRings } from './fill';
+import { getDistance, getStrokesBounds } from './geometry';
+import { getTextBox } from './text';
+import type { Bounds, DrawingObject, Point, Shape, ShapeKind } from './types';
+
+export const SHAPE_KINDS: ShapeKind[] = ['line', 'arrow', 'rectangle', 'ellipse', 'polygon'];
+// Side counts the polygon tool can draw; each polygon stores its corners as its points
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 12;
+export const DEFAULT_POLYGON_SIDES = 5;
+
+// Lines snap to multiples of this angle when constrained
+const SNAP_ANGLE = Math.PI / 12;
+// Control point distance for a quarter ellipse as a cubic Bezier, relative to the radius
+const ELLIPSE_K = 0.5523;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+const CURVE_SAMPLES = 8;
+
+// Outline of a shape as path commands, so canvas, SVG and PDF draw the same geometry
+export type PathCommand =
+    | { type: 'M'; to: Point }
+    | { type: 'L'; to: Point }
+    | { type: 'C'; cp1: Point; cp2: Point; to: Point }
+    | { type: 'Z' };
+
+export function isShape(obj: DrawingObject): obj is Shape {
+    return isShapeKind(obj.kind);
+}
+
+export function isShapeKind(value: unknown): value is ShapeKind {
+    return SHAPE_KINDS.includes(value as ShapeKind);
+}
+
+// Smallest number of points each kind is defined by (polygons may have more)
+export function getShapePointCount(kind: ShapeKind): number {
+    return kind === 'line' || kind === 'arrow' ? 2 : kind === 'polygon' ? 3 : 4;
+}
+
+// Defining points of a shape dragged from `start` to `end`. With `constrain`, lines snap
+// to 15° steps and boxes become squares (so ellipses are circles and polygons regular).
+// Works in any coordinate space; the app uses screen space so shapes line up with the view.
+// Polygons get `sides` corners.
+export function getShapePoints(
+    kind: ShapeKind, start: Point, end: Point, constrain: boolean, sides = DEFAULT_POLYGON_SIDES
+): Point[] {
+    if (kind === 'line' || kind === 'arrow') {
+        if (!constrain) return [start, end];
+        const length = getDistance(start, end);
+        const angle = Math.round(Math.atan2(end.y - start.y, end.x - start.x) / SNAP_ANGLE) * SNAP_ANGLE;
+        return [start, { x: start.x + Math.cos(angle) * length, y: start.y + Math.sin(angle) * length }];
+    }
+
+    let dx = end.x - start.x;
+    let dy = end.y - start.y;
+    if (constrain) {
+        const side = Math.max(Math.abs(dx), Math.abs(dy));
+        dx = (dx < 0 ? -1 : 1) * side;
+        dy = (dy < 0 ? -1 : 1) * side;
+    }
+    const corner = { x: start.x + dx, y: start.y + dy };
+
+    if (kind === 'polygon') {
+        // Regular polygon inscribed in the box's ellipse, pointing up
+        const cx = start.x + dx / 2;
+        const cy = start.y + dy / 2;
+        const points: Point[] = [];
+        for (let i = 0; i < sides; i++) {
+            const angle = -Math.PI / 2 + i * 2 * Math.PI / sides;
+            points.push({ x: cx + Math.cos(angle) * Math.abs(dx) / 2, y: cy + Math.sin(angle) * Math.abs(dy) / 2 });
+        }
+        return points;
+    }
+    return [start, { x: corner.x, y: start.y }, corner, { x: start.x, y: corner.y }];
+}
+
+function offset(p: Point, u: Point, su: number, v: Point, sv: number): Point {
+    return { x: p.x + u.x * su + v.x * sv, y: p.y + u.y * su + v.y * sv };
+}
+
+// Ellipse inscribed in the (possibly rotated) box p0..p3, as four Bezier quarters
+function getEllipsePath(points: Point[]): PathCommand[] {
+    const [p0, p1, p2, p3] = points;
+    const c = { x: (p0.x + p2.x) / 2, y: (p0.y + p2.y) / 2 };
+    const u = { x: (p1.x + p2.x) / 2 - c.x, y: (p1.y + p2.y) / 2 - c.y };
+    const v = { x: (p2.x + p3.x) / 2 - c.x, y: (p2.y + p3.y) / 2 - c.y };
+    const k = ELLIPSE_K;
+    return [
+        { type: 'M', to: offset(c, u, 1, v, 0) },
+        { type: 'C', cp1: offset(c, u, 1, v, k), cp2: offset(c, u, k, v, 1), to: offset(c, u, 0, v, 1) },
+        { type: 'C', cp1: offset(c, u, -k, v, 1), cp2: offset(c, u, -1, v, k), to: offset(c, u, -1, v, 0) },
+        { type: 'C', cp1: offset(c, u, -1, v, -k), cp2: offset(c, u, -k, v, -1), to: offset(c, u, 0, v, -1) },
+        { type: 'C', cp1: offset(c, u, k, v, -1), cp2: offset(c, u, 1, v, -k), to: offset(c, u, 1, v, 0) },
+        { type: 'Z' }
+    ];
+}
+
+// Two short lines at the tip, sized from the line width but never longer than half the shaft
+function getArrowHeadPath(shape: Shape): PathCommand[] {
+    const [tail, tip] = shape.points;
+    const length = getDistance(tail, tip);
+    if (length === 0) return [];
+    const headLength = Math.min(length / 2, Math.max(shape.size * 4, 10));
+    const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+    const side = (sign: number) => ({
+        x: tip.x - Math.cos(angle + sign * ARROW_HEAD_ANGLE) * headLength,
+        y: tip.y - Math.sin(angle + sign * ARROW_HEAD_ANGLE) * headLength
+    });
+    return [
+        { type: 'M', to: side(1) },
+        { type: 'L', to: tip },
+        { type: 'L', to: side(-1) }
+    ];
+}
+
+export function getShapePath(shape: Shape): PathCommand[] {
+    const points = shape.points;
+    if (shape.kind === 'ellipse') {
+        return getEllipsePath(points);
+    }
+    const path: PathCommand[] = points.map((p, i) => ({ type: i === 0 ? 'M' : 'L', to: p }));
+    if (shape.kind === 'arrow') {
+        return path.concat(getArrowHeadPath(shape));
+    }
+    if (shape.kind === 'rectangle' || shape.kind === 'polygon') {
+        path.push({ type: 'Z' });
+    }
+    return path;
+}
+
+// Flatten path commands into polylines (one per subpath; closed subpaths repeat their start)
+export function flattenPath(path: PathCommand[]): Point[][] {
+    const polylines: Point[][] = [];
+    let current: Point[] = [];
+    path.forEach(command => {
+        if (command.type === 'M') {
+            current = [command.to];
+            polylines.push(current);
+        } else if (command.type === 'L') {
+            current.push(command.to);
+        } else if (command.type === 'C') {
+            const from = current[current.length - 1];
+            for (let i = 1; i <= CURVE_SAMPLES; i++) {
+                const t = i / CURVE_SAMPLES;
+                const mt = 1 - t;
+                const a = mt * mt * mt;
+                const b = 3 * mt * mt * t;
+                const c = 3 * mt * t * t;
+                const d = t * t * t;
+                current.push({
+                    x: a * from.x + b * command.cp1.x + c * command.cp2.x + d * command.to.x,
+                    y: a * from.y + b * command.cp1.y + c * command.cp2.y + d * command.to.y
+                });
+            }
+        } else if (current.length > 0) {
+            current.push(current[0]);
+        }
+    });
+    return polylines;
+}
+
+// Centerlines of an object as polylines, for hit testing, selection and bounds.
+// Text and images are represented by the outline of their box, fills by their outlines.
+export function getObjectPaths(obj: DrawingObject): Point[][] {
+    if (obj.kind === 'text') {
+        const box = getTextBox(obj);
+        return [[...box, box[0]]];
+    }
+    if (obj.kind === 'image') {
+        return [[...obj.points, obj.points[0]]];
+    }
+    if (obj.kind === 'fill') {
+        return getFillRings(obj).map(ring => [...ring, ring[0]]);
+    }
+    return isShape(obj) ? flattenPath(getShapePath(obj)) : [obj.points];
+}
+
+// Bounding box of drawing objects, including line width (text and image boxes and fills are exact)
+export function getObjectsBounds(objects: DrawingObject[]): Bounds | null {
+    return getStrokesBounds(objects.map(obj => ({
+        size: obj.kind === 'text' || obj.kind === 'image' || obj.kind === 'fill' ? 0 : obj.size,
+        points: getObjectPaths(obj).flat()
+    })));
+}
+
+// Trace path commands onto a canvas context (the caller strokes or fills)
+export function tracePath(ctx: CanvasRenderingContext2D, path: PathCommand[]) {
+    path.forEach(command => {
+        if (command.type === 'M') {
+            ctx.moveTo(command.to.x, command.to.y);
+        } else if (command.type === 'L') {
+            ctx.lineTo(command.to.x, command.to.y);
+        } else if (command.type === 'C') {
+            ctx.bezierCurveTo(command.cp1.x, command.cp1.y, command.cp2.x, command.cp2.y, command.to.x, command.to.y);
+        } else {
+            ctx.closePath();
+        }
+    });
+}
+
+// Draw a shape outline (expects lineCap/lineJoin to be 'round')
+export function drawShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+    ctx.strokeStyle = shape.color;
+    ctx.lineWidth = shape.size;
+    ctx.beginPath();
+    tracePath(ctx, getShapePath(shape));
+    ctx.stroke();
+}
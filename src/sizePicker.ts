@@ -1,13 +1,44 @@
-// 16 sizes in a 4x4 grid (1 to 50, exponentially distributed for better UX)
-const SIZES = [1, 2, 3, 4, 6, 8, 10, 13, 16, 20, 25, 30, 36, 42, 48, 50];
+// Brush sizes run continuously from MIN_SIZE to MAX_SIZE on a logarithmic slider
+export const MIN_SIZE = 0.5;
+export const MAX_SIZE = 200;
+const SLIDER_STEPS = 1000;
+// Quick picks under the slider
+const PRESETS = [1, 2, 4, 6, 10, 16, 25, 50];
+const PREVIEW_SIZE = 96;  // CSS px box the preview dot is drawn in
+
+// 'screen': the size is in screen pixels, so strokes look the same at any zoom (their
+// canvas size is fixed when they start). 'canvas': the size is in canvas units, so
+// strokes come out the same size in the drawing at any zoom.
+export type SizeMode = 'screen' | 'canvas';
+
+// Keep sizes within range, as whole numbers from 10 up and in halves below
+export function clampSize(size: number): number {
+    const clamped = Math.min(MAX_SIZE, Math.max(MIN_SIZE, size));
+    return clamped >= 10 ? Math.round(clamped) : Math.round(clamped * 2) / 2;
+}
+
+function toSliderValue(size: number): number {
+    return Math.round(Math.log(size / MIN_SIZE) / Math.log(MAX_SIZE / MIN_SIZE) * SLIDER_STEPS);
+}
+
+function fromSliderValue(value: number): number {
+    return clampSize(MIN_SIZE * Math.pow(MAX_SIZE / MIN_SIZE, value / SLIDER_STEPS));
+}
 
 export function createSizePicker(
     triggerElement: HTMLElement,
-    onChange: (size: number) => void
+    onChange: (size: number) => void,  // called once a size is chosen, not while dragging
+    getViewScale: () => number         // screen pixels per canvas unit, for the canvas-size preview
 ) {
-    let currentSize = SIZES[4]; // Default to 6
+    let currentSize = 6;
+    let mode: SizeMode = 'screen';
     let popup: HTMLElement | null = null;
 
+    // Size on screen at the current zoom
+    function getScreenSize(): number {
+        return mode === 'canvas' ? currentSize * getViewScale() : currentSize;
+    }
+
     // Style the trigger element and draw current size
     function updateTrigger() {
         triggerElement.style.backgroundColor = '#333';
@@ -17,16 +48,17 @@ export function createSizePicker(
         triggerElement.style.display = 'flex';
         triggerElement.style.alignItems = 'center';
         triggerElement.style.justifyContent = 'center';
+        triggerElement.title = `Size ${currentSize}${mode === 'canvas' ? ' (canvas)' : ''}`;
 
         // Clear and redraw the size indicator
         triggerElement.innerHTML = '';
         const dot = document.createElement('div');
-        const displaySize = Math.min(currentSize, 24); // Cap display size
+        const displaySize = Math.max(1, Math.min(currentSize, 24)); // Cap display size
         dot.style.cssText = `
             width: ${displaySize}px;
             height: ${displaySize}px;
             background: white;
-            border-radius: 50%;
+            border-radius: ${mode === 'canvas' ? '2px' : '50%'};
         `;
         triggerElement.appendChild(dot);
     }
@@ -39,48 +71,144 @@ export function createSizePicker(
             border: 1px solid #555;
             border-radius: 8px;
             padding: 8px;
-            display: grid;
-            grid-template-columns: repeat(4, 1fr);
-            gap: 6px;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            width: 220px;
             z-index: 1000;
             box-shadow: 0 4px 12px rgba(0,0,0,0.3);
         `;
+        div.addEventListener('click', e => e.stopPropagation());
 
-        SIZES.forEach(size => {
-            const cell = document.createElement('div');
-            cell.style.cssText = `
-                width: 40px;
-                height: 40px;
-                background: ${size === currentSize ? '#555' : '#333'};
-                border: 2px solid ${size === currentSize ? '#fff' : '#444'};
-                border-radius: 4px;
-                cursor: pointer;
-                display: flex;
-                align-items: center;
-                justify-content: center;
-            `;
+        // Dot at the size strokes will have on screen
+        const preview = document.createElement('div');
+        preview.style.cssText = `
+            height: ${PREVIEW_SIZE}px;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            overflow: hidden;
+            background: #333;
+            border-radius: 4px;
+        `;
+        const dot = document.createElement('div');
+        dot.style.cssText = `
+            flex: none;
+            background: white;
+            border-radius: 50%;
+        `;
+        preview.appendChild(dot);
+        div.appendChild(preview);
 
-            const dot = document.createElement('div');
-            const displaySize = Math.min(size, 32); // Cap display size in popup
-            dot.style.cssText = `
-                width: ${displaySize}px;
-                height: ${displaySize}px;
-                background: white;
-                border-radius: 50%;
-            `;
-            cell.appendChild(dot);
+        const row = document.createElement('div');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        `;
+        const slider = document.createElement('input');
+        slider.type = 'range';
+        slider.min = '0';
+        slider.max = String(SLIDER_STEPS);
+        slider.style.flex = '1';
+        const number = document.createElement('input');
+        number.type = 'number';
+        number.min = String(MIN_SIZE);
+        number.max = String(MAX_SIZE);
+        number.step = '0.5';
+        number.style.width = '56px';
+        row.appendChild(slider);
+        row.appendChild(number);
+        div.appendChild(row);
 
-            cell.addEventListener('click', (e) => {
-                e.stopPropagation();
-                currentSize = size;
-                onChange(size);
-                updateTrigger();
+        function update() {
+            const screenSize = Math.max(1, getScreenSize());
+            dot.style.width = `${screenSize}px`;
+            dot.style.height = `${screenSize}px`;
+            slider.value = String(toSliderValue(currentSize));
+            if (document.activeElement !== number) {
+                number.value = String(currentSize);
+            }
+        }
+
+        function choose(size: number, final: boolean) {
+            currentSize = clampSize(size);
+            updateTrigger();
+            update();
+            if (final) {
+                onChange(currentSize);
+            }
+        }
+
+        slider.addEventListener('input', () => choose(fromSliderValue(Number(slider.value)), false));
+        slider.addEventListener('change', () => choose(fromSliderValue(Number(slider.value)), true));
+        number.addEventListener('change', () => {
+            const size = Number(number.value);
+            if (Number.isFinite(size) && size > 0) {
+                choose(size, true);
+            }
+            number.value = String(currentSize);
+        });
+
+        const presets = document.createElement('div');
+        presets.style.cssText = `
+            display: grid;
+            grid-template-columns: repeat(${PRESETS.length / 2}, 1fr);
+            gap: 4px;
+        `;
+        PRESETS.forEach(size => {
+            const button = document.createElement('button');
+            button.textContent = String(size);
+            button.style.cssText = `
+                padding: 4px 0;
+                font-size: 12px;
+                background: #444;
+                color: #fff;
+            `;
+            button.addEventListener('click', () => {
+                choose(size, true);
                 closePopup();
             });
+            presets.appendChild(button);
+        });
+        div.appendChild(presets);
 
-            div.appendChild(cell);
+        // Screen-relative or canvas-absolute sizing
+        const modes = document.createElement('div');
+        modes.style.cssText = `
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 4px;
+        `;
+        const modeButtons = ([['screen', 'Screen size'], ['canvas', 'Canvas size']] as const).map(([id, label]) => {
+            const button = document.createElement('button');
+            button.textContent = label;
+            button.title = id === 'screen'
+                ? 'Strokes look this size on screen at any zoom'
+                : 'Strokes are this size in the drawing, whatever the zoom';
+            button.addEventListener('click', () => {
+                mode = id;
+                updateModeButtons();
+                updateTrigger();
+                update();
+            });
+            modes.appendChild(button);
+            return { id, button };
         });
+        function updateModeButtons() {
+            modeButtons.forEach(({ id, button }) => {
+                button.style.cssText = `
+                    padding: 6px 0;
+                    font-size: 12px;
+                    color: #fff;
+                    background: ${id === mode ? '#4a90d9' : '#444'};
+                `;
+            });
+        }
+        updateModeButtons();
+        div.appendChild(modes);
 
+        update();
         return div;
     }
 
@@ -130,9 +258,13 @@ export function createSizePicker(
 
     return {
         getSize: () => currentSize,
+        getMode: () => mode,
+        getScreenSize,
+        // Size of new strokes in canvas units at the current zoom
+        getCanvasSize: () => mode === 'canvas' ? currentSize : currentSize / getViewScale(),
         setSize: (size: number) => {
-            if (SIZES.includes(size)) {
-                currentSize = size;
+            if (Number.isFinite(size)) {
+                currentSize = clampSize(size);
                 updateTrigger();
             }
         }
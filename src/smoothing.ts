@@ -0,0 +1,141 @@
+import { distanceToSegment, getDistance, lerpPoint } from './geometry';
+import type { Point } from './types';
+
+// Cubic Bezier segment equivalent to one span of a Catmull-Rom spline
+export interface BezierSegment {
+    cp1: Point;
+    cp2: Point;
+    to: Point;
+}
+
+// Longest straight piece used when flattening the spline for outlines
+const MAX_SAMPLE_LENGTH = 4;
+const MAX_SAMPLES_PER_SPAN = 8;
+
+// Lazy-brush stabilizer: the brush trails the cursor on a string of `radius` screen pixels
+// and only moves once the string is taut, which filters out jitter.
+export function createStabilizer() {
+    let brush: Point | null = null;
+    let cursor: Point | null = null;
+
+    function reset(pos: Point) {
+        brush = { ...pos };
+        cursor = { ...pos };
+    }
+
+    // Returns the new brush position, or null if the brush did not move
+    function update(pos: Point, radius: number): Point | null {
+        cursor = { ...pos };
+        if (!brush || radius <= 0) {
+            brush = { ...pos };
+            return brush;
+        }
+        const distance = getDistance(brush, pos);
+        if (distance <= radius) return null;
+
+        const t = (distance - radius) / distance;
+        brush = {
+            x: brush.x + (pos.x - brush.x) * t,
+            y: brush.y + (pos.y - brush.y) * t
+        };
+        return brush;
+    }
+
+    // At the end of a stroke the brush catches up with the cursor, so the stroke ends
+    // where the pointer lifted. Returns that position, or null if the brush is already there.
+    function finish(): Point | null {
+        if (!cursor || (brush && brush.x === cursor.x && brush.y === cursor.y)) return null;
+        brush = { ...cursor };
+        return brush;
+    }
+
+    return { reset, update, finish };
+}
+
+// Convert a polyline into Bezier segments of the Catmull-Rom spline through its points
+export function getBezierSegments(points: Point[]): BezierSegment[] {
+    const segments: BezierSegment[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+        const p0 = points[Math.max(0, i - 1)];
+        const p1 = points[i];
+        const p2 = points[i + 1];
+        const p3 = points[Math.min(points.length - 1, i + 2)];
+        segments.push({
+            cp1: { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+            cp2: { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+            to: p2
+        });
+    }
+    return segments;
+}
+
+// Flatten the Catmull-Rom spline through `points` into a denser polyline.
+// Pressure, tilt and time are interpolated linearly along each span.
+export function sampleSmoothPath(points: Point[]): Point[] {
+    if (points.length < 3) return points;
+
+    const result: Point[] = [points[0]];
+    getBezierSegments(points).forEach((segment, i) => {
+        const from = points[i];
+        const span = getDistance(from, segment.to);
+        const count = Math.min(MAX_SAMPLES_PER_SPAN, Math.max(1, Math.ceil(span / MAX_SAMPLE_LENGTH)));
+        for (let k = 1; k < count; k++) {
+            const t = k / count;
+            const mt = 1 - t;
+            const a = mt * mt * mt;
+            const b = 3 * mt * mt * t;
+            const c = 3 * mt * t * t;
+            const d = t * t * t;
+            result.push({
+                ...lerpPoint(from, segment.to, t),
+                x: a * from.x + b * segment.cp1.x + c * segment.cp2.x + d * segment.to.x,
+                y: a * from.y + b * segment.cp1.y + c * segment.cp2.y + d * segment.to.y
+            });
+        }
+        result.push(segment.to);
+    });
+    return result;
+}
+
+// Deviation of p from the chord ab, counting pressure changes relative to the stroke size
+function getDeviation(p: Point, a: Point, b: Point, size: number): number {
+    const distance = distanceToSegment(p, a, b);
+    if (p.pressure === undefined || a.pressure === undefined || b.pressure === undefined) {
+        return distance;
+    }
+    const chord = getDistance(a, b);
+    const t = chord === 0 ? 0 : getDistance(a, p) / chord;
+    const expected = a.pressure + (b.pressure - a.pressure) * Math.min(1, t);
+    return Math.max(distance, Math.abs(p.pressure - expected) * size);
+}
+
+// Ramer-Douglas-Peucker simplification; drops points whose removal changes the stroke
+// by less than `tolerance` canvas units
+export function simplifyPoints(points: Point[], tolerance: number, size: number): Point[] {
+    if (points.length < 3) return points;
+
+    const keep = new Array<boolean>(points.length).fill(false);
+    keep[0] = true;
+    keep[points.length - 1] = true;
+
+    // Iterative to avoid deep recursion on long strokes
+    const stack: [number, number][] = [[0, points.length - 1]];
+    while (stack.length > 0) {
+        const [start, end] = stack.pop()!;
+        let maxDeviation = 0;
+        let index = -1;
+        for (let i = start + 1; i < end; i++) {
+            const deviation = getDeviation(points[i], points[start], points[end], size);
+            if (deviation > maxDeviation) {
+                maxDeviation = deviation;
+                index = i;
+            }
+        }
+        if (index !== -1 && maxDeviation > tolerance) {
+            keep[index] = true;
+            stack.push([start, index], [index, end]);
+        }
+    }
+
+    return points.filter((_, i) => keep[i]);
+}
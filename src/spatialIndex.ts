@@ -0,0 +1,72 @@
+import { boundsIntersect } from './geometry';
+import type { Bounds } from './types';
+
+// Side of a grid cell, in canvas units
+const CELL_SIZE = 256;
+// Items covering more cells than this are kept in one list and always tested directly
+const MAX_CELLS_PER_ITEM = 64;
+
+// Uniform grid over item bounding boxes, built once for a list of items. Queries return
+// every item whose bounds intersect the given box.
+export function createSpatialIndex<T>(items: T[], getBounds: (item: T) => Bounds | null) {
+    const cells = new Map<string, T[]>();
+    const large: T[] = [];
+    const itemBounds = new Map<T, Bounds>();
+
+    function cellRange(bounds: Bounds) {
+        return {
+            minX: Math.floor(bounds.minX / CELL_SIZE),
+            minY: Math.floor(bounds.minY / CELL_SIZE),
+            maxX: Math.floor(bounds.maxX / CELL_SIZE),
+            maxY: Math.floor(bounds.maxY / CELL_SIZE)
+        };
+    }
+
+    items.forEach(item => {
+        const bounds = getBounds(item);
+        if (!bounds) return;
+        itemBounds.set(item, bounds);
+        const range = cellRange(bounds);
+        if ((range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > MAX_CELLS_PER_ITEM) {
+            large.push(item);
+            return;
+        }
+        for (let x = range.minX; x <= range.maxX; x++) {
+            for (let y = range.minY; y <= range.maxY; y++) {
+                const key = `${x},${y}`;
+                const cell = cells.get(key);
+                if (cell) {
+                    cell.push(item);
+                } else {
+                    cells.set(key, [item]);
+                }
+            }
+        }
+    });
+
+    function query(bounds: Bounds): Set<T> {
+        const found = new Set<T>();
+        const test = (item: T) => {
+            if (!found.has(item) && boundsIntersect(itemBounds.get(item)!, bounds)) {
+                found.add(item);
+            }
+        };
+        const range = cellRange(bounds);
+        // A huge query box (zoomed far out) is cheaper to answer by testing every item
+        if ((range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > cells.size) {
+            itemBounds.forEach((_, item) => test(item));
+            return found;
+        }
+        for (let x = range.minX; x <= range.maxX; x++) {
+            for (let y = range.minY; y <= range.maxY; y++) {
+                cells.get(`${x},${y}`)?.forEach(test);
+            }
+        }
+        large.forEach(test);
+        return found;
+    }
+
+    return { query };
+}
+
+export type SpatialIndex<T> = ReturnType<typeof createSpatialIndex<T>>;
@@ -0,0 +1,150 @@
+import { FORMAT_VERSION, migrateDocument, validateDocument } from './documentFormat';
+import type { DrawingObject, Layer, ViewTransform } from './types';
+
+const DB_NAME = 'webdraw';
+const DB_VERSION = 1;
+const META_STORE = 'documents';
+const CONTENT_STORE = 'contents';
+const CURRENT_DOCUMENT_KEY = 'webdraw.currentDocumentId';
+
+// Lightweight record used to list drawings without loading their strokes
+export interface DocumentSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface DocumentContent {
+    layers: Layer[];
+    strokes: DrawingObject[];
+    viewTransform: ViewTransform;
+}
+
+export interface StoredDocument extends DocumentSummary, DocumentContent {}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Resolve once a transaction has been committed
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(CONTENT_STORE)) {
+                    db.createObjectStore(CONTENT_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+// List all drawings, most recently edited first
+export async function listDocuments(): Promise<DocumentSummary[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const summaries = await promisify(tx.objectStore(META_STORE).getAll() as IDBRequest<DocumentSummary[]>);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadDocument(id: string): Promise<StoredDocument | null> {
+    const db = await openDatabase();
+    const tx = db.transaction([META_STORE, CONTENT_STORE], 'readonly');
+    const [summary, stored] = await Promise.all([
+        promisify(tx.objectStore(META_STORE).get(id) as IDBRequest<DocumentSummary | undefined>),
+        promisify(tx.objectStore(CONTENT_STORE).get(id) as IDBRequest<unknown>)
+    ]);
+    if (!summary || !stored) return null;
+
+    // Records written by older versions are upgraded and checked like imported files;
+    // a damaged record throws a DocumentFormatError
+    const content = validateDocument(migrateDocument(stored));
+    return {
+        ...summary,
+        layers: content.layers,
+        strokes: content.strokes,
+        viewTransform: content.viewTransform
+    };
+}
+
+export async function saveDocument(doc: StoredDocument): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([META_STORE, CONTENT_STORE], 'readwrite');
+    const summary: DocumentSummary = {
+        id: doc.id,
+        name: doc.name,
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt
+    };
+    const content: DocumentContent & { version: number } = {
+        version: FORMAT_VERSION,
+        layers: doc.layers,
+        strokes: doc.strokes,
+        viewTransform: doc.viewTransform
+    };
+    tx.objectStore(META_STORE).put(summary);
+    tx.objectStore(CONTENT_STORE).put(content, doc.id);
+    await transactionDone(tx);
+}
+
+export async function renameDocument(id: string, name: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const store = tx.objectStore(META_STORE);
+    const summary = await promisify(store.get(id) as IDBRequest<DocumentSummary | undefined>);
+    if (summary) {
+        store.put({ ...summary, name, updatedAt: Date.now() });
+    }
+    await transactionDone(tx);
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([META_STORE, CONTENT_STORE], 'readwrite');
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(CONTENT_STORE).delete(id);
+    await transactionDone(tx);
+}
+
+// Remember which drawing was open so it can be restored on the next visit
+export function getCurrentDocumentId(): string | null {
+    try {
+        return localStorage.getItem(CURRENT_DOCUMENT_KEY);
+    } catch {
+        return null;
+    }
+}
+
+export function setCurrentDocumentId(id: string) {
+    try {
+        localStorage.setItem(CURRENT_DOCUMENT_KEY, id);
+    } catch {
+        // Storage may be unavailable (private mode); the drawing is still saved
+    }
+}
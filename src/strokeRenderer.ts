@@ -0,0 +1,213 @@
+import { drawFill, type FillGrid } from './fill';
+import { getDistance } from './geometry';
+import { drawImageObject } from './images';
+import { drawShape, isShape } from './shapes';
+import { getBezierSegments, sampleSmoothPath } from './smoothing';
+import { drawText } from './text';
+import type { DrawingObject, Point, Stroke } from './types';
+
+// Width never drops below this fraction of the stroke size
+const MIN_WIDTH_FACTOR = 0.2;
+// Ends of variable-width strokes narrow to this fraction over TAPER_LENGTH stroke sizes
+const TAPER_MIN = 0.4;
+const TAPER_LENGTH = 2;
+
+export interface Circle {
+    x: number;
+    y: number;
+    r: number;
+}
+
+// A variable-width stroke as a union of discs at each point and quads joining them.
+// Every part is wound the same way, so a single nonzero fill paints the union.
+export interface StrokeOutline {
+    circles: Circle[];
+    quads: Point[][];
+}
+
+// Strokes recorded before pressure support (or with it disabled) keep constant width
+export function isVariableWidth(stroke: Stroke): boolean {
+    return stroke.points.some(p => p.pressure !== undefined);
+}
+
+// Fraction of the stroke size used at a point; tilting a pen widens the line
+function getWidthFactor(point: Point): number {
+    if (point.pressure === undefined) return 1;
+    const factor = MIN_WIDTH_FACTOR + (1 - MIN_WIDTH_FACTOR) * point.pressure;
+    return Math.min(1, factor * (1 + 0.5 * (point.tilt ?? 0)));
+}
+
+// Width at each point of a (flattened) variable-width stroke, with tapered ends
+function getPointWidths(stroke: Stroke, points: Point[]): number[] {
+    const distances = [0];
+    for (let i = 1; i < points.length; i++) {
+        distances.push(distances[i - 1] + getDistance(points[i - 1], points[i]));
+    }
+    const total = distances[distances.length - 1];
+    const taperLength = stroke.size * TAPER_LENGTH;
+
+    return points.map((p, i) => {
+        const taper = Math.max(0, Math.min(1, distances[i] / taperLength, (total - distances[i]) / taperLength));
+        return stroke.size * getWidthFactor(p) * (TAPER_MIN + (1 - TAPER_MIN) * taper);
+    });
+}
+
+// Shoelace area; positive for the same winding as ctx.arc in canvas coordinates
+function signedArea(polygon: Point[]): number {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+}
+
+// Outline of the smoothed stroke path
+export function getStrokeOutline(stroke: Stroke): StrokeOutline {
+    const points = sampleSmoothPath(stroke.points);
+    const widths = getPointWidths(stroke, points);
+    const circles = points.map((p, i) => ({ x: p.x, y: p.y, r: widths[i] / 2 }));
+    const quads: Point[][] = [];
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const length = getDistance(a, b);
+        if (length === 0) continue;
+        const nx = -(b.y - a.y) / length;
+        const ny = (b.x - a.x) / length;
+        const ra = circles[i - 1].r;
+        const rb = circles[i].r;
+        const quad = [
+            { x: a.x + nx * ra, y: a.y + ny * ra },
+            { x: b.x + nx * rb, y: b.y + ny * rb },
+            { x: b.x - nx * rb, y: b.y - ny * rb },
+            { x: a.x - nx * ra, y: a.y - ny * ra }
+        ];
+        quads.push(signedArea(quad) < 0 ? quad.reverse() : quad);
+    }
+
+    return { circles, quads };
+}
+
+function drawVariableWidthStroke(ctx: CanvasRenderingContext2D, stroke: Stroke) {
+    const outline = getStrokeOutline(stroke);
+    ctx.fillStyle = stroke.color;
+    ctx.beginPath();
+    outline.circles.forEach(c => {
+        ctx.moveTo(c.x + c.r, c.y);
+        ctx.arc(c.x, c.y, c.r, 0, Math.PI * 2);
+    });
+    outline.quads.forEach(quad => {
+        ctx.moveTo(quad[0].x, quad[0].y);
+        for (let i = 1; i < quad.length; i++) {
+            ctx.lineTo(quad[i].x, quad[i].y);
+        }
+        ctx.closePath();
+    });
+    ctx.fill();
+}
+
+// Draw a single stroke (expects lineCap/lineJoin to be 'round')
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke) {
+    if (isVariableWidth(stroke)) {
+        drawVariableWidthStroke(ctx, stroke);
+        return;
+    }
+
+    if (stroke.points.length < 2) {
+        if (stroke.points.length === 1) {
+            ctx.fillStyle = stroke.color;
+            ctx.beginPath();
+            ctx.arc(stroke.points[0].x, stroke.points[0].y, stroke.size / 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        return;
+    }
+
+    // Curve through the sampled points instead of joining them with straight segments
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.size;
+    ctx.beginPath();
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+
+    getBezierSegments(stroke.points).forEach(({ cp1, cp2, to }) => {
+        ctx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, to.x, to.y);
+    });
+    ctx.stroke();
+}
+
+// Draw a stroke, shape, text, image or fill (expects lineCap/lineJoin to be 'round')
+export function drawObject(ctx: CanvasRenderingContext2D, obj: DrawingObject) {
+    if (isShape(obj)) {
+        drawShape(ctx, obj);
+    } else if (obj.kind === 'text') {
+        drawText(ctx, obj);
+    } else if (obj.kind === 'image') {
+        drawImageObject(ctx, obj);
+    } else if (obj.kind === 'fill') {
+        drawFill(ctx, obj);
+    } else {
+        drawStroke(ctx, obj);
+    }
+}
+
+// Draw one layer's strokes at the given opacity. Translucent layers are rendered onto
+// `scratch` first so overlapping strokes within the layer don't show through each other.
+export function drawLayer(
+    ctx: CanvasRenderingContext2D,
+    strokes: DrawingObject[],
+    opacity: number,
+    scratch: HTMLCanvasElement
+) {
+    if (opacity >= 1) {
+        strokes.forEach(obj => drawObject(ctx, obj));
+        return;
+    }
+    if (opacity <= 0 || strokes.length === 0) return;
+
+    if (scratch.width !== ctx.canvas.width || scratch.height !== ctx.canvas.height) {
+        scratch.width = ctx.canvas.width;
+        scratch.height = ctx.canvas.height;
+    }
+    const layerCtx = scratch.getContext('2d')!;
+    layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+    layerCtx.clearRect(0, 0, scratch.width, scratch.height);
+    layerCtx.setTransform(ctx.getTransform());
+    layerCtx.lineCap = 'round';
+    layerCtx.lineJoin = 'round';
+    strokes.forEach(obj => drawObject(layerCtx, obj));
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = opacity;
+    ctx.drawImage(scratch, 0, 0);
+    ctx.restore();
+}
+
+// Which cells of `grid` are mostly covered by the ink of strokes, shapes and text.
+// Images and fills aren't ink: the paint bucket fills across them.
+export function rasterizeInk(objects: DrawingObject[], grid: FillGrid): Uint8Array {
+    const canvas = document.createElement('canvas');
+    canvas.width = grid.width;
+    canvas.height = grid.height;
+    const rasterCtx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const scale = 1 / grid.cellSize;
+    rasterCtx.setTransform(scale, 0, 0, scale, -grid.origin.x * scale, -grid.origin.y * scale);
+    rasterCtx.lineCap = 'round';
+    rasterCtx.lineJoin = 'round';
+    // Drawn opaque, so faint translucent ink still bounds the fill
+    objects.forEach(obj => {
+        if (obj.kind !== 'image' && obj.kind !== 'fill') {
+            drawObject(rasterCtx, { ...obj, color: '#000000' });
+        }
+    });
+
+    const data = rasterCtx.getImageData(0, 0, grid.width, grid.height).data;
+    const ink = new Uint8Array(grid.width * grid.height);
+    for (let i = 0; i < ink.length; i++) {
+        ink[i] = data[i * 4 + 3] >= 128 ? 1 : 0;
+    }
+    return ink;
+}
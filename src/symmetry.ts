@@ -0,0 +1,69 @@
+import { getSimilarityMatrix, type Matrix } from './geometry';
+import type { Point } from './types';
+
+// Mirror drawing: every stroke or shape is repeated around a center point in canvas space.
+// 'horizontal' mirrors left to right, 'vertical' top to bottom, 'both' does both and
+// 'radial' repeats the drawing `folds` times around the center.
+export type SymmetryMode = 'off' | 'horizontal' | 'vertical' | 'both' | 'radial';
+
+export const SYMMETRY_MODES: { id: SymmetryMode; label: string }[] = [
+    { id: 'off', label: 'Off' },
+    { id: 'horizontal', label: 'Left | right' },
+    { id: 'vertical', label: 'Top | bottom' },
+    { id: 'both', label: 'Four ways' },
+    { id: 'radial', label: 'Radial' },
+];
+
+export const MIN_FOLDS = 2;
+export const MAX_FOLDS = 16;
+
+export interface Symmetry {
+    mode: SymmetryMode;
+    center: Point;   // canvas coordinates
+    folds: number;   // copies around the center in radial mode, including the original
+}
+
+function mirrorX(center: Point): Matrix {
+    return { a: -1, b: 0, c: 0, d: 1, e: center.x * 2, f: 0 };
+}
+
+function mirrorY(center: Point): Matrix {
+    return { a: 1, b: 0, c: 0, d: -1, e: 0, f: center.y * 2 };
+}
+
+// Transforms that produce the copies of what is drawn (the original is not included)
+export function getSymmetryMatrices({ mode, center, folds }: Symmetry): Matrix[] {
+    switch (mode) {
+        case 'off':
+            return [];
+        case 'horizontal':
+            return [mirrorX(center)];
+        case 'vertical':
+            return [mirrorY(center)];
+        case 'both':
+            return [mirrorX(center), mirrorY(center), getSimilarityMatrix(center, center, 1, Math.PI)];
+        case 'radial':
+            return Array.from({ length: folds - 1 }, (_, i) =>
+                getSimilarityMatrix(center, center, 1, (i + 1) * Math.PI * 2 / folds));
+    }
+}
+
+// Guide lines through the center, as angles in canvas space. Mirror axes are whole lines;
+// radial guides are rays from the center between the repeated segments.
+export function getSymmetryGuides({ mode, folds }: Symmetry): { angles: number[]; rays: boolean } {
+    switch (mode) {
+        case 'off':
+            return { angles: [], rays: false };
+        case 'horizontal':
+            return { angles: [Math.PI / 2], rays: false };
+        case 'vertical':
+            return { angles: [0], rays: false };
+        case 'both':
+            return { angles: [0, Math.PI / 2], rays: false };
+        case 'radial':
+            return {
+                angles: Array.from({ length: folds }, (_, i) => -Math.PI / 2 + i * Math.PI * 2 / folds),
+                rays: true
+            };
+    }
+}
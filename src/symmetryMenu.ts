@@ -0,0 +1,172 @@
+import { MAX_FOLDS, MIN_FOLDS, SYMMETRY_MODES, type Symmetry } from './symmetry';
+
+interface SymmetryMenuOptions {
+    getSymmetry: () => Symmetry;
+    onChange: (symmetry: Symmetry) => void;
+    onPlaceCenter: () => void;     // the next tap or click on the canvas moves the center
+    onCenterInView: () => void;
+}
+
+export function createSymmetryMenu(
+    triggerElement: HTMLElement,
+    options: SymmetryMenuOptions
+) {
+    let popup: HTMLElement | null = null;
+
+    // Show whether symmetry is on
+    function updateTrigger() {
+        const { mode, folds } = options.getSymmetry();
+        triggerElement.textContent = mode === 'off' ? 'Symmetry'
+            : mode === 'radial' ? `Symmetry ×${folds}`
+            : 'Symmetry ✓';
+    }
+
+    function update(changes: Partial<Symmetry>) {
+        options.onChange({ ...options.getSymmetry(), ...changes });
+        updateTrigger();
+        renderPopup();
+    }
+
+    function createButton(label: string, active: boolean, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 6px 0;
+            font-size: 12px;
+            color: #fff;
+            background: ${active ? '#4a90d9' : '#444'};
+        `;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    // (Re)build the popup contents from the current symmetry
+    function renderPopup() {
+        if (!popup) return;
+        popup.replaceChildren();
+        const symmetry = options.getSymmetry();
+
+        const modes = document.createElement('div');
+        modes.style.cssText = `
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 4px;
+        `;
+        SYMMETRY_MODES.forEach(({ id, label }) => {
+            modes.appendChild(createButton(label, id === symmetry.mode, () => update({ mode: id })));
+        });
+        popup.appendChild(modes);
+
+        if (symmetry.mode === 'radial') {
+            const row = document.createElement('label');
+            row.style.cssText = `
+                display: flex;
+                align-items: center;
+                gap: 6px;
+                color: #fff;
+                font-size: 13px;
+            `;
+            row.append('Segments');
+            const slider = document.createElement('input');
+            slider.type = 'range';
+            slider.min = String(MIN_FOLDS);
+            slider.max = String(MAX_FOLDS);
+            slider.value = String(symmetry.folds);
+            slider.style.flex = '1';
+            const text = document.createElement('span');
+            text.textContent = String(symmetry.folds);
+            text.style.cssText = `
+                width: 20px;
+                text-align: right;
+                color: #aaa;
+            `;
+            slider.addEventListener('input', () => {
+                text.textContent = slider.value;
+                options.onChange({ ...options.getSymmetry(), folds: Number(slider.value) });
+                updateTrigger();
+            });
+            row.appendChild(slider);
+            row.appendChild(text);
+            popup.appendChild(row);
+        }
+
+        if (symmetry.mode !== 'off') {
+            const center = document.createElement('div');
+            center.style.cssText = `
+                display: grid;
+                grid-template-columns: 1fr 1fr;
+                gap: 4px;
+            `;
+            center.appendChild(createButton('Place center', false, () => {
+                options.onPlaceCenter();
+                closePopup();
+            }));
+            center.appendChild(createButton('Center in view', false, () => options.onCenterInView()));
+            popup.appendChild(center);
+        }
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            width: 220px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+        div.addEventListener('click', e => e.stopPropagation());
+        return div;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${Math.max(4, Math.min(rect.left, window.innerWidth - popup.offsetWidth - 4))}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        renderPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+
+    updateTrigger();
+}
@@ -0,0 +1,197 @@
+import { createLayer } from './layers';
+import type { DrawingObject, Layer } from './types';
+
+// Replicated copy of a drawing that collaborators edit concurrently. Each object is a
+// last-writer-wins register keyed by its id; deleted objects stay behind as tombstones
+// so a late edit can't bring them back unnoticed. Layers are merged the same way.
+// Merging is commutative and idempotent, so peers that have seen the same patches end
+// up with the same drawing whatever order the patches arrived in.
+
+// Lamport timestamp; ties are broken by peer id so every peer picks the same winner
+export interface Stamp {
+    clock: number;
+    peer: string;
+}
+
+// Latest state of one object; `object` is null once it has been deleted
+export interface ObjectEntry {
+    id: string;
+    object: DrawingObject | null;
+    stamp: Stamp;
+    order: number;  // position in drawing order; ties are ordered by id
+}
+
+// Latest state of one layer; `layer` is null once it has been deleted
+export interface LayerEntry {
+    id: string;
+    layer: Layer | null;
+    stamp: Stamp;
+    order: number;  // position bottom to top; ties are ordered by id
+}
+
+// Changes exchanged between peers (or a peer's full state)
+export interface SyncPatch {
+    objects: ObjectEntry[];
+    layers: LayerEntry[];
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+    return a.clock !== b.clock ? a.clock - b.clock : a.peer < b.peer ? -1 : a.peer > b.peer ? 1 : 0;
+}
+
+// Order value between two neighbours (either may be missing at the ends of the list)
+function getOrderBetween(before: number | null, after: number | null): number {
+    if (before === null) return after === null ? 0 : after - 1;
+    if (after === null || after <= before) return before + 1;
+    return (before + after) / 2;
+}
+
+export function createSyncState(peer: string) {
+    const entries = new Map<string, ObjectEntry>();
+    const layerEntries = new Map<string, LayerEntry>();
+    let clock = 0;
+    let strokes: DrawingObject[] | null = null;  // live objects in drawing order, rebuilt on change
+    let layers: Layer[] | null = null;
+
+    function nextStamp(): Stamp {
+        clock++;
+        return { clock, peer };
+    }
+
+    function invalidate() {
+        strokes = null;
+        layers = null;
+    }
+
+    // Record local edits: diff the drawing against the replicated state and return the
+    // patch that brings peers up to date (null if nothing changed). Objects are compared
+    // by identity, as edits always replace them.
+    function commit(localStrokes: DrawingObject[], localLayers: Layer[]): SyncPatch | null {
+        const patch: SyncPatch = { objects: [], layers: [] };
+        const present = new Set<string>();
+        let previousOrder: number | null = null;
+
+        localStrokes.forEach((obj, i) => {
+            present.add(obj.id);
+            const entry = entries.get(obj.id);
+            if (entry && entry.object === obj) {
+                previousOrder = entry.order;
+                return;
+            }
+            // Edited (or restored) objects keep their place; new ones go between their neighbours
+            let order = entry?.order;
+            if (order === undefined) {
+                const next = localStrokes.slice(i + 1).find(o => entries.get(o.id)?.object);
+                order = getOrderBetween(previousOrder, next ? entries.get(next.id)!.order : null);
+            }
+            const updated: ObjectEntry = { id: obj.id, object: obj, stamp: nextStamp(), order };
+            entries.set(obj.id, updated);
+            patch.objects.push(updated);
+            previousOrder = order;
+        });
+
+        entries.forEach(entry => {
+            if (entry.object && !present.has(entry.id)) {
+                const deleted: ObjectEntry = { ...entry, object: null, stamp: nextStamp() };
+                entries.set(entry.id, deleted);
+                patch.objects.push(deleted);
+            }
+        });
+
+        // Layers are diffed like objects, except that one found out of order has been moved
+        // and is given a new place
+        const presentLayers = new Set<string>();
+        let previousLayerOrder: number | null = null;
+        localLayers.forEach((layer, i) => {
+            presentLayers.add(layer.id);
+            const entry = layerEntries.get(layer.id);
+            const inOrder = !!entry?.layer && (previousLayerOrder === null || entry.order > previousLayerOrder);
+            if (entry && entry.layer === layer && inOrder) {
+                previousLayerOrder = entry.order;
+                return;
+            }
+            let order = inOrder ? entry!.order : undefined;
+            if (order === undefined) {
+                const next = localLayers.slice(i + 1).find(l => layerEntries.get(l.id)?.layer);
+                order = getOrderBetween(previousLayerOrder, next ? layerEntries.get(next.id)!.order : null);
+            }
+            const updated: LayerEntry = { id: layer.id, layer, stamp: nextStamp(), order };
+            layerEntries.set(layer.id, updated);
+            patch.layers.push(updated);
+            previousLayerOrder = order;
+        });
+        layerEntries.forEach(entry => {
+            if (entry.layer && !presentLayers.has(entry.id)) {
+                const deleted: LayerEntry = { ...entry, layer: null, stamp: nextStamp() };
+                layerEntries.set(entry.id, deleted);
+                patch.layers.push(deleted);
+            }
+        });
+
+        if (patch.objects.length === 0 && patch.layers.length === 0) return null;
+        invalidate();
+        return patch;
+    }
+
+    // Apply a peer's patch; returns whether the drawing changed
+    function merge(patch: SyncPatch): boolean {
+        let changed = false;
+        patch.objects.forEach(incoming => {
+            clock = Math.max(clock, incoming.stamp.clock);
+            const entry = entries.get(incoming.id);
+            if (!entry || compareStamps(incoming.stamp, entry.stamp) > 0) {
+                entries.set(incoming.id, incoming);
+                changed = true;
+            }
+        });
+        patch.layers.forEach(incoming => {
+            clock = Math.max(clock, incoming.stamp.clock);
+            const entry = layerEntries.get(incoming.id);
+            if (!entry || compareStamps(incoming.stamp, entry.stamp) > 0) {
+                layerEntries.set(incoming.id, incoming);
+                changed = true;
+            }
+        });
+        if (changed) {
+            invalidate();
+        }
+        return changed;
+    }
+
+    function getStrokes(): DrawingObject[] {
+        if (!strokes) {
+            strokes = [...entries.values()]
+                .filter(entry => entry.object)
+                .sort((a, b) => a.order - b.order || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+                .map(entry => entry.object!);
+        }
+        return strokes;
+    }
+
+    // Layers, plus stand-ins for any a peer deleted while someone else was still drawing on them
+    function getLayers(): Layer[] {
+        if (!layers) {
+            layers = [...layerEntries.values()]
+                .filter(entry => entry.layer)
+                .sort((a, b) => a.order - b.order || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+                .map(entry => entry.layer!);
+            const ids = new Set(layers.map(layer => layer.id));
+            getStrokes().forEach(obj => {
+                if (!ids.has(obj.layerId)) {
+                    ids.add(obj.layerId);
+                    layers!.push(createLayer(obj.layerId, 'Recovered layer'));
+                }
+            });
+        }
+        return layers;
+    }
+
+    // Everything known, for a peer that has just joined
+    function getSnapshot(): SyncPatch {
+        return { objects: [...entries.values()], layers: [...layerEntries.values()] };
+    }
+
+    return { commit, merge, getStrokes, getLayers, getSnapshot };
+}
+
+export type SyncState = ReturnType<typeof createSyncState>;
@@ -0,0 +1,78 @@
+import { getAngle } from './geometry';
+import { createId } from './ids';
+import type { Point, TextObject } from './types';
+
+export const TEXT_FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+export const TEXT_LINE_HEIGHT = 1.25;  // in font sizes
+// Baseline of the first line below the text origin, in font sizes (same for every renderer)
+export const TEXT_ASCENT = 0.8;
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+export function getTextLines(obj: TextObject): string[] {
+    return obj.text.split('\n');
+}
+
+// Angle of the text's baseline in canvas space
+export function getTextRotation(obj: TextObject): number {
+    return getAngle(obj.points[0], obj.points[1]);
+}
+
+// Width of the longest line in canvas units
+function measureTextWidth(obj: TextObject): number {
+    if (!measureCtx) {
+        measureCtx = document.createElement('canvas').getContext('2d')!;
+    }
+    measureCtx.font = `${obj.size}px ${TEXT_FONT_FAMILY}`;
+    return Math.max(...getTextLines(obj).map(line => measureCtx!.measureText(line).width));
+}
+
+// Corners of the text's box, clockwise from the origin (top-left before rotation)
+export function getTextBox(obj: TextObject): Point[] {
+    const origin = obj.points[0];
+    const rotation = getTextRotation(obj);
+    const width = measureTextWidth(obj);
+    const height = getTextLines(obj).length * TEXT_LINE_HEIGHT * obj.size;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const at = (x: number, y: number) => ({
+        x: origin.x + x * cos - y * sin,
+        y: origin.y + x * sin + y * cos
+    });
+    return [at(0, 0), at(width, 0), at(width, height), at(0, height)];
+}
+
+// Text object placed at `origin` (canvas coordinates), with its baseline at `rotation`
+export function createTextObject(
+    layerId: string,
+    origin: Point,
+    rotation: number,
+    text: string,
+    color: string,
+    size: number
+): TextObject {
+    return {
+        kind: 'text',
+        id: createId(),
+        layerId,
+        color,
+        size,
+        text,
+        // The second point only records the direction of the baseline
+        points: [origin, { x: origin.x + Math.cos(rotation) * size, y: origin.y + Math.sin(rotation) * size }]
+    };
+}
+
+export function drawText(ctx: CanvasRenderingContext2D, obj: TextObject) {
+    const origin = obj.points[0];
+    ctx.save();
+    ctx.translate(origin.x, origin.y);
+    ctx.rotate(getTextRotation(obj));
+    ctx.fillStyle = obj.color;
+    ctx.font = `${obj.size}px ${TEXT_FONT_FAMILY}`;
+    ctx.textBaseline = 'alphabetic';
+    getTextLines(obj).forEach((line, i) => {
+        ctx.fillText(line, 0, (TEXT_ASCENT + i * TEXT_LINE_HEIGHT) * obj.size);
+    });
+    ctx.restore();
+}
@@ -0,0 +1,183 @@
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from './text';
+import type { Point } from './types';
+
+// Font sizes offered in the editor, in screen pixels
+const FONT_SIZES = [12, 16, 20, 24, 32, 48, 64, 96];
+
+// Text being edited, in screen terms (the app converts to and from canvas space)
+export interface TextEditTarget {
+    position: Point;   // top-left of the first line, relative to the canvas element
+    rotation: number;  // on-screen angle of the baseline, in radians
+    fontSize: number;  // in screen pixels
+    color: string;
+    text: string;
+}
+
+interface TextEditorOptions {
+    onCommit: (text: string, fontSize: number, color: string) => void;
+    onCancel: () => void;
+}
+
+export function createTextEditor(
+    canvasElement: HTMLElement,
+    options: TextEditorOptions
+) {
+    let textarea: HTMLTextAreaElement | null = null;
+    let bar: HTMLElement | null = null;
+    let fontSize = 24;  // remembered for new text while the page is open
+    let color = '#000000';
+
+    // Grow the textarea to fit its contents, so it lines up with the rendered text
+    function fitTextarea() {
+        if (!textarea) return;
+        textarea.style.width = '0';
+        textarea.style.height = '0';
+        textarea.style.width = `${Math.max(textarea.scrollWidth, fontSize)}px`;
+        textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+
+    function applyStyle() {
+        if (!textarea) return;
+        textarea.style.fontSize = `${fontSize}px`;
+        textarea.style.color = color;
+        fitTextarea();
+    }
+
+    function createButton(label: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            padding: 4px 8px;
+            font-size: 12px;
+            background: #444;
+            color: #fff;
+        `;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return button;
+    }
+
+    function createBar(position: Point) {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: fixed;
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 4px 6px;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 6px;
+            color: #fff;
+            font-size: 12px;
+            z-index: 1000;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        `;
+
+        const select = document.createElement('select');
+        const sizes = FONT_SIZES.includes(fontSize) ? FONT_SIZES : [...FONT_SIZES, fontSize].sort((a, b) => a - b);
+        sizes.forEach(size => {
+            const option = document.createElement('option');
+            option.value = String(size);
+            option.textContent = `${size}px`;
+            option.selected = size === fontSize;
+            select.appendChild(option);
+        });
+        select.addEventListener('change', () => {
+            fontSize = Number(select.value);
+            applyStyle();
+            textarea?.focus();
+        });
+
+        div.append('Size');
+        div.appendChild(select);
+        div.appendChild(createButton('Done', commit));
+        div.appendChild(createButton('Cancel', cancel));
+
+        const rect = canvasElement.getBoundingClientRect();
+        div.style.left = `${rect.left + position.x}px`;
+        div.style.top = `${Math.max(rect.top, rect.top + position.y - 40)}px`;
+        return div;
+    }
+
+    function open(target: TextEditTarget) {
+        close();
+        fontSize = Math.round(target.fontSize);
+        color = target.color;
+
+        const rect = canvasElement.getBoundingClientRect();
+        textarea = document.createElement('textarea');
+        textarea.value = target.text;
+        textarea.wrap = 'off';
+        textarea.spellcheck = false;
+        textarea.style.cssText = `
+            position: fixed;
+            left: ${rect.left + target.position.x}px;
+            top: ${rect.top + target.position.y}px;
+            transform: rotate(${target.rotation}rad);
+            transform-origin: 0 0;
+            margin: 0;
+            padding: 0;
+            border: none;
+            outline: 1px dashed #4a90d9;
+            background: rgba(255, 255, 255, 0.6);
+            font-family: ${TEXT_FONT_FAMILY};
+            line-height: ${TEXT_LINE_HEIGHT};
+            white-space: pre;
+            overflow: hidden;
+            resize: none;
+            z-index: 999;
+        `;
+        textarea.addEventListener('input', fitTextarea);
+        textarea.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                cancel();
+            } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                commit();
+            }
+        });
+
+        bar = createBar(target.position);
+        document.body.appendChild(textarea);
+        document.body.appendChild(bar);
+        applyStyle();
+        textarea.focus();
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+
+    function close() {
+        textarea?.remove();
+        bar?.remove();
+        textarea = null;
+        bar = null;
+    }
+
+    function commit() {
+        if (!textarea) return;
+        const text = textarea.value;
+        close();
+        options.onCommit(text, fontSize, color);
+    }
+
+    function cancel() {
+        if (!textarea) return;
+        close();
+        options.onCancel();
+    }
+
+    return {
+        open,
+        commit,
+        cancel,
+        isOpen: () => textarea !== null,
+        getFontSize: () => fontSize,
+        setColor: (newColor: string) => {
+            color = newColor;
+            applyStyle();
+        }
+    };
+}
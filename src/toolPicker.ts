@@ -0,0 +1,185 @@
+import { DEFAULT_POLYGON_SIDES, MAX_POLYGON_SIDES, MIN_POLYGON_SIDES } from './shapes';
+import type { ShapeKind } from './types';
+
+// Shape tools share their ids with the shape kinds they draw
+export type Tool = 'pen' | 'eraser' | 'strokeEraser' | 'lassoSelect' | 'rectSelect' | ShapeKind | 'text' | 'fill';
+
+const TOOLS: { id: Tool; label: string; icon: string }[] = [
+    { id: 'pen', label: 'Pen', icon: '✎' },
+    { id: 'eraser', label: 'Eraser', icon: '◍' },
+    { id: 'strokeEraser', label: 'Stroke eraser', icon: '⌫' },
+    { id: 'lassoSelect', label: 'Lasso select', icon: '∿' },
+    { id: 'rectSelect', label: 'Rectangle select', icon: '⬚' },
+    { id: 'line', label: 'Line', icon: '╱' },
+    { id: 'arrow', label: 'Arrow', icon: '➚' },
+    { id: 'rectangle', label: 'Rectangle', icon: '▭' },
+    { id: 'ellipse', label: 'Ellipse', icon: '◯' },
+    { id: 'polygon', label: 'Polygon', icon: '⬠' },
+    { id: 'text', label: 'Text', icon: 'T' },
+    { id: 'fill', label: 'Fill', icon: '◧' },
+];
+
+export function createToolPicker(
+    triggerElement: HTMLElement,
+    onChange: (tool: Tool) => void
+) {
+    let currentTool: Tool = TOOLS[0].id;
+    let polygonSides = DEFAULT_POLYGON_SIDES;
+    let popup: HTMLElement | null = null;
+
+    // Style the trigger element to show the current tool's icon
+    function updateTrigger() {
+        const tool = TOOLS.find(t => t.id === currentTool)!;
+        triggerElement.textContent = tool.icon;
+        triggerElement.title = tool.id === 'polygon' ? `${tool.label} (${polygonSides} sides)` : tool.label;
+        triggerElement.style.backgroundColor = '#333';
+        triggerElement.style.border = '2px solid #666';
+        triggerElement.style.borderRadius = '4px';
+        triggerElement.style.cursor = 'pointer';
+        triggerElement.style.color = '#fff';
+        triggerElement.style.fontSize = '18px';
+        triggerElement.style.lineHeight = '24px';
+        triggerElement.style.textAlign = 'center';
+    }
+
+    function selectTool(tool: Tool) {
+        currentTool = tool;
+        onChange(tool);
+        updateTrigger();
+    }
+
+    function createPopup() {
+        const div = document.createElement('div');
+        div.style.cssText = `
+            position: absolute;
+            background: #2a2a2a;
+            border: 1px solid #555;
+            border-radius: 8px;
+            padding: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            z-index: 1000;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+        `;
+
+        TOOLS.forEach(tool => {
+            const item = document.createElement('div');
+            item.style.cssText = `
+                display: flex;
+                align-items: center;
+                gap: 10px;
+                padding: 6px 10px;
+                background: ${tool.id === currentTool ? '#555' : '#333'};
+                border: 2px solid ${tool.id === currentTool ? '#fff' : '#444'};
+                border-radius: 4px;
+                color: #fff;
+                font-size: 14px;
+                cursor: pointer;
+                white-space: nowrap;
+            `;
+
+            const icon = document.createElement('span');
+            icon.textContent = tool.icon;
+            icon.style.cssText = `
+                width: 20px;
+                font-size: 18px;
+                text-align: center;
+            `;
+            item.appendChild(icon);
+            item.append(tool.label);
+            if (tool.id === 'polygon') {
+                item.appendChild(createSidesInput());
+            }
+
+            item.addEventListener('click', (e) => {
+                e.stopPropagation();
+                selectTool(tool.id);
+                closePopup();
+            });
+
+            div.appendChild(item);
+        });
+
+        return div;
+    }
+
+    // Side count for the polygon tool; changing it picks the polygon tool
+    function createSidesInput() {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = String(MIN_POLYGON_SIDES);
+        input.max = String(MAX_POLYGON_SIDES);
+        input.value = String(polygonSides);
+        input.title = 'Sides';
+        input.style.cssText = `
+            width: 44px;
+            margin-left: auto;
+        `;
+        input.addEventListener('click', (e) => e.stopPropagation());
+        input.addEventListener('change', () => {
+            const value = Math.round(parseFloat(input.value));
+            if (Number.isFinite(value)) {
+                polygonSides = Math.min(MAX_POLYGON_SIDES, Math.max(MIN_POLYGON_SIDES, value));
+            }
+            input.value = String(polygonSides);
+            selectTool('polygon');
+        });
+        return input;
+    }
+
+    function positionPopup() {
+        if (!popup) return;
+        const rect = triggerElement.getBoundingClientRect();
+        popup.style.left = `${rect.left}px`;
+        popup.style.top = `${rect.bottom + 4}px`;
+    }
+
+    function openPopup() {
+        if (popup) return;
+        popup = createPopup();
+        document.body.appendChild(popup);
+        positionPopup();
+
+        // Close on outside click
+        setTimeout(() => {
+            document.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    function closePopup() {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            document.removeEventListener('click', handleOutsideClick);
+        }
+    }
+
+    function handleOutsideClick(e: MouseEvent) {
+        if (popup && !popup.contains(e.target as Node) && e.target !== triggerElement) {
+            closePopup();
+        }
+    }
+
+    triggerElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (popup) {
+            closePopup();
+        } else {
+            openPopup();
+        }
+    });
+
+    updateTrigger();
+
+    return {
+        getTool: () => currentTool,
+        getPolygonSides: () => polygonSides,
+        setTool: (tool: Tool) => {
+            if (TOOLS.some(t => t.id === tool)) {
+                currentTool = tool;
+                updateTrigger();
+            }
+        }
+    };
+}
@@ -0,0 +1,96 @@
+export interface Point {
+    x: number;
+    y: number;
+    pressure?: number;  // 0..1; strokes without it render at constant width
+    tilt?: number;      // 0..1, pen tilt away from vertical
+    t?: number;         // ms since the stroke started
+}
+
+// Freehand stroke through its sampled points
+export interface Stroke {
+    kind: 'stroke';
+    id: string;        // stable across edits, so collaborators can tell objects apart
+    layerId: string;   // id of the Layer the stroke belongs to
+    color: string;
+    size: number;
+    points: Point[];
+}
+
+export type ShapeKind = 'line' | 'arrow' | 'rectangle' | 'ellipse' | 'polygon';
+
+// Geometric shape drawn as a constant-width outline. Its points are the start and end of
+// lines and arrows, the corners of the (possibly rotated) box of rectangles and ellipses,
+// and the vertices of polygons.
+export interface Shape {
+    kind: ShapeKind;
+    id: string;
+    layerId: string;
+    color: string;
+    size: number;
+    points: Point[];
+}
+
+// Text annotation. points[0] is the top-left of the first line and points[1] lies along
+// the baseline direction, so moving, scaling and rotating the points transforms the text.
+export interface TextObject {
+    kind: 'text';
+    id: string;
+    layerId: string;
+    color: string;
+    size: number;      // font size in canvas units
+    text: string;      // may contain newlines
+    points: Point[];
+}
+
+// Imported picture, stored inline as a data URL. Its points are the corners of the image,
+// clockwise from its top-left, so it moves, scales and rotates like a rectangle.
+// Images draw beneath the strokes of their layer.
+export interface ImageObject {
+    kind: 'image';
+    id: string;
+    layerId: string;
+    src: string;           // data:image/... URL
+    opacity: number;       // 0..1
+    background: boolean;   // locked reference image: not selectable or erasable, drawn beneath all layers
+    points: Point[];
+}
+
+// Area filled with the paint bucket, as one or more closed outlines filled with the
+// even-odd rule (so outlines inside the first cut holes). `rings` holds the number of
+// points in each outline; together they use up `points`. Fills draw beneath the
+// strokes of their layer, so the lines around them stay crisp.
+export interface FillObject {
+    kind: 'fill';
+    id: string;
+    layerId: string;
+    color: string;
+    rings: number[];
+    points: Point[];
+}
+
+// Anything stored in a drawing
+export type DrawingObject = Stroke | Shape | TextObject | ImageObject | FillObject;
+
+// Layers are composited bottom to top in the order they are listed
+export interface Layer {
+    id: string;
+    name: string;
+    visible: boolean;
+    locked: boolean;   // locked layers can't be drawn on, erased or selected
+    opacity: number;   // 0..1, applied to the layer as a whole
+}
+
+export interface ViewTransform {
+    scale: number;
+    rotation: number;  // in radians
+    panX: number;
+    panY: number;
+}
+
+// Axis-aligned bounding box in canvas coordinates
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
@@ -0,0 +1,79 @@
+import type { Bounds, Point, ViewTransform } from './types';
+
+// Zoom limits, as view scale
+export const MIN_SCALE = 0.05;
+export const MAX_SCALE = 20;
+
+export function clampScale(scale: number): number {
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+// Rotation wrapped into (-π, π], so animating back to 0 takes the short way round
+export function normalizeRotation(rotation: number): number {
+    const wrapped = rotation % (Math.PI * 2);
+    if (wrapped > Math.PI) return wrapped - Math.PI * 2;
+    if (wrapped <= -Math.PI) return wrapped + Math.PI * 2;
+    return wrapped;
+}
+
+// The view scales and rotates around `center` (the middle of the canvas element), then pans.
+// Screen coordinates are CSS pixels relative to the canvas element.
+export function toScreenPoint(view: ViewTransform, canvasPos: Point, center: Point): Point {
+    const cos = Math.cos(view.rotation);
+    const sin = Math.sin(view.rotation);
+    const x = (canvasPos.x - center.x) * view.scale;
+    const y = (canvasPos.y - center.y) * view.scale;
+    return {
+        x: cos * x - sin * y + center.x + view.panX,
+        y: sin * x + cos * y + center.y + view.panY
+    };
+}
+
+export function toCanvasPoint(view: ViewTransform, screenPos: Point, center: Point): Point {
+    const cos = Math.cos(-view.rotation);
+    const sin = Math.sin(-view.rotation);
+    const x = screenPos.x - view.panX - center.x;
+    const y = screenPos.y - view.panY - center.y;
+    return {
+        x: (cos * x - sin * y) / view.scale + center.x,
+        y: (sin * x + cos * y) / view.scale + center.y
+    };
+}
+
+// View with the given scale and rotation that shows `canvasPos` at `screenPos`
+export function getViewAt(canvasPos: Point, screenPos: Point, scale: number, rotation: number, center: Point): ViewTransform {
+    const placed = toScreenPoint({ scale, rotation, panX: 0, panY: 0 }, canvasPos, center);
+    return { scale, rotation, panX: screenPos.x - placed.x, panY: screenPos.y - placed.y };
+}
+
+// View that shows all of `bounds` centered in a `width` x `height` canvas, keeping the
+// rotation and leaving `margin` CSS pixels free around it
+export function getFitView(bounds: Bounds, rotation: number, width: number, height: number, margin: number): ViewTransform {
+    const cos = Math.abs(Math.cos(rotation));
+    const sin = Math.abs(Math.sin(rotation));
+    const boundsWidth = bounds.maxX - bounds.minX;
+    const boundsHeight = bounds.maxY - bounds.minY;
+    // Size of the rotated box at scale 1
+    const rotatedWidth = boundsWidth * cos + boundsHeight * sin;
+    const rotatedHeight = boundsWidth * sin + boundsHeight * cos;
+    const availableWidth = Math.max(1, width - margin * 2);
+    const availableHeight = Math.max(1, height - margin * 2);
+    const scale = clampScale(Math.min(
+        rotatedWidth > 0 ? availableWidth / rotatedWidth : MAX_SCALE,
+        rotatedHeight > 0 ? availableHeight / rotatedHeight : MAX_SCALE
+    ));
+    const center = { x: width / 2, y: height / 2 };
+    const contentCenter = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+    return getViewAt(contentCenter, center, scale, rotation, center);
+}
+
+// View part way (t from 0 to 1) between two views. The canvas point in the middle of the
+// screen moves in a straight line and the scale changes geometrically, so zooming feels even.
+export function interpolateView(from: ViewTransform, to: ViewTransform, t: number, center: Point): ViewTransform {
+    const fromPos = toCanvasPoint(from, center, center);
+    const toPos = toCanvasPoint(to, center, center);
+    const canvasPos = { x: fromPos.x + (toPos.x - fromPos.x) * t, y: fromPos.y + (toPos.y - fromPos.y) * t };
+    const scale = from.scale * Math.pow(to.scale / from.scale, t);
+    const rotation = from.rotation + (to.rotation - from.rotation) * t;
+    return getViewAt(canvasPos, center, scale, rotation, center);
+}